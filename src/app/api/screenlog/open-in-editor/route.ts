@@ -0,0 +1,44 @@
+// Development-only route used by ScreenLogger to open a logged call site in the local editor.
+// GET /api/screenlog/open-in-editor?file=src/app/page.tsx&line=12&column=5
+
+import fs from "node:fs";
+import path from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+// The editor launcher the Next.js error overlay is based on. It picks the editor from
+// REACT_EDITOR (as Next does), LAUNCH_EDITOR, the running processes or VISUAL / EDITOR.
+import launchEditor from "launch-editor";
+
+export function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== "development") {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const file = params.get("file");
+  if (!file) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+
+  // Only open files inside the project
+  const root = process.cwd();
+  const filePath = path.resolve(root, file);
+  if (!filePath.startsWith(root + path.sep) || !fs.existsSync(filePath)) {
+    return NextResponse.json({ error: `File not found: ${file}` }, { status: 404 });
+  }
+
+  const line = Number(params.get("line")) || 1;
+  const column = Number(params.get("column")) || 1;
+  let failed = false;
+  try {
+    // Failing to find an editor is reported through the callback right away
+    launchEditor(`${filePath}:${line}:${column}`, process.env.REACT_EDITOR, () => {
+      failed = true;
+    });
+  } catch (err) {
+    failed = true;
+  }
+  if (failed) {
+    return NextResponse.json({ error: "Failed to launch editor" }, { status: 500 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
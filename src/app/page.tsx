@@ -26,8 +26,8 @@ export default function Home() {
           the dev tools can get in the way.
         </p>
         <p className="text-xs max-w-xl mx-auto mb-8">
-          This page will refresh every minute to prevent memory issues in
-          production if left open or idle.
+          Captured logs are capped by entry count and size, so this page can be
+          left open for hours. The oldest entries are evicted first.
         </p>
 
         <ul className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm max-w-4xl mx-auto">
@@ -0,0 +1,126 @@
+// ANSI escape sequences in log text, as printed by Node-style libraries (chalk, debug ...).
+// SGR colour and style codes become styled segments; every other escape sequence is dropped.
+
+/** Inline style for a run of text; usable as a React style or assigned to element.style */
+export interface AnsiStyle {
+  color?: string;
+  backgroundColor?: string;
+  fontWeight?: "bold";
+  fontStyle?: "italic";
+  textDecoration?: "underline";
+  opacity?: string;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// CSI sequences (ESC [ params final), OSC sequences (ESC ] ... BEL or ESC \) and the
+// remaining two-character escapes
+const ESCAPE_SEQUENCE =
+  /\x1b\[([0-9;:?]*)[ -/]*([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)?|\x1b[@-_]?/g;
+
+// Standard and bright colours 0-15, readable on the dark panel background
+const PALETTE = [
+  "#000000",
+  "#cd3131",
+  "#0dbc79",
+  "#e5e510",
+  "#2472c8",
+  "#bc3fbc",
+  "#11a8cd",
+  "#e5e5e5",
+  "#666666",
+  "#f14c4c",
+  "#23d18b",
+  "#f5f543",
+  "#3b8eea",
+  "#d670d6",
+  "#29b8db",
+  "#ffffff",
+];
+
+const isByte = (value: number) => Number.isInteger(value) && value >= 0 && value <= 255;
+
+// One of the 256 xterm colours: the palette, a 6×6×6 colour cube, then 24 greys
+function xtermColor(index: number): string | undefined {
+  if (!isByte(index)) return undefined;
+  if (index < 16) return PALETTE[index];
+  if (index >= 232) {
+    const grey = 8 + (index - 232) * 10;
+    return `rgb(${grey},${grey},${grey})`;
+  }
+  const levels = [0, 95, 135, 175, 215, 255];
+  const cube = index - 16;
+  const [r, g, b] = [Math.floor(cube / 36), Math.floor(cube / 6) % 6, cube % 6].map(
+    level => levels[level]
+  );
+  return `rgb(${r},${g},${b})`;
+}
+
+// Colour from the parameters after 38 or 48 (5;n or 2;r;g;b), and how many parameters it used
+function readExtendedColor(codes: number[], start: number): [string | undefined, number] {
+  if (codes[start] === 5) return [xtermColor(codes[start + 1]), 2];
+  if (codes[start] === 2) {
+    const rgb = codes.slice(start + 1, start + 4);
+    return [rgb.length === 3 && rgb.every(isByte) ? `rgb(${rgb.join(",")})` : undefined, 4];
+  }
+  return [undefined, 0];
+}
+
+// Style after applying one SGR sequence's parameters; unsupported codes are ignored
+function applySgr(current: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === "" ? [0] : params.split(/[;:]/).map(Number);
+  let style = { ...current };
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) style = {};
+    else if (code === 1) style.fontWeight = "bold";
+    else if (code === 2) style.opacity = "0.7";
+    else if (code === 3) style.fontStyle = "italic";
+    else if (code === 4) style.textDecoration = "underline";
+    else if (code === 22) {
+      delete style.fontWeight;
+      delete style.opacity;
+    } else if (code === 23) delete style.fontStyle;
+    else if (code === 24) delete style.textDecoration;
+    else if (code >= 30 && code <= 37) style.color = PALETTE[code - 30];
+    else if (code >= 90 && code <= 97) style.color = PALETTE[code - 90 + 8];
+    else if (code === 39) delete style.color;
+    else if (code >= 40 && code <= 47) style.backgroundColor = PALETTE[code - 40];
+    else if (code >= 100 && code <= 107) style.backgroundColor = PALETTE[code - 100 + 8];
+    else if (code === 49) delete style.backgroundColor;
+    else if (code === 38 || code === 48) {
+      const [color, used] = readExtendedColor(codes, i + 1);
+      i += used;
+      if (color) style[code === 38 ? "color" : "backgroundColor"] = color;
+    }
+  }
+  return style;
+}
+
+export function hasAnsiCodes(text: string) {
+  return text.includes("\x1b");
+}
+
+/** Text without any escape sequences, for searching and copying */
+export function stripAnsi(text: string) {
+  return hasAnsiCodes(text) ? text.replace(ESCAPE_SEQUENCE, "") : text;
+}
+
+/** Split text into runs of one style each, following its SGR codes */
+export function parseAnsi(text: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  let style: AnsiStyle = {};
+  let offset = 0;
+
+  for (const match of text.matchAll(ESCAPE_SEQUENCE)) {
+    if (match.index! > offset) segments.push({ text: text.slice(offset, match.index), style });
+    offset = match.index! + match[0].length;
+    if (match[2] === "m") style = applySgr(style, match[1]);
+  }
+  if (offset < text.length) segments.push({ text: text.slice(offset), style });
+  return segments;
+}
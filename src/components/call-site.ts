@@ -0,0 +1,125 @@
+// Call-site capture for ScreenLogger's opt-in `captureCallSites` mode.
+// Finds the frame that called console.* or screenLog.* in a stack trace and, in development,
+// maps it back to the original source file through the Next.js dev server, the same way
+// the Next.js error overlay does.
+
+import type { CallSite } from "./log-store";
+
+// Chrome: "at fn (url:12:5)" or "at url:12:5"; Firefox and Safari: "fn@url:12:5"
+const FRAME_PATTERN = /(?:at (?:.* \()?|@)(.+?):(\d+):(\d+)\)?$/;
+
+// Dev-only route that opens a project file in the local editor
+const OPEN_IN_EDITOR_ROUTE = "/api/screenlog/open-in-editor";
+
+// Next.js dev server endpoint that source-maps stack frames
+const ORIGINAL_FRAMES_ROUTE = "/__nextjs_original-stack-frames";
+
+// The lines of a stack trace that are frames; Chrome starts with an "Error" line that isn't
+function stackFrameLines(stack: string) {
+  return stack
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => FRAME_PATTERN.test(line));
+}
+
+export function parseStackFrames(stack: string): CallSite[] {
+  return stackFrameLines(stack).map(line => {
+    const [, file, lineNumber, column] = FRAME_PATTERN.exec(line)!;
+    return { file, line: Number(lineNumber), column: Number(column) };
+  });
+}
+
+/**
+ * Returns the frame of the code that made the logging call. `depth` is the number of logger
+ * frames above it, counting the function that calls this one. Frames are counted rather than
+ * matched by file name because bundled chunks don't carry the logger's file names.
+ */
+export function captureCallSite(depth = 1): CallSite | undefined {
+  const stack = new Error().stack;
+  if (!stack) return undefined;
+  // The first frame is this function
+  return parseStackFrames(stack)[depth + 1];
+}
+
+/**
+ * Stack trace from the code that made the logging call down, one frame per line, as shown
+ * for console.trace. `depth` counts the logger frames as for captureCallSite.
+ */
+export function captureStackTrace(depth = 1): string {
+  const stack = new Error().stack ?? "";
+  // The first frame is this function
+  return stackFrameLines(stack)
+    .slice(depth + 1)
+    .join("\n");
+}
+
+// "page.tsx:12" for a call site, without the directory, query string or column
+export function formatCallSite(site: CallSite): string {
+  const file = site.file.replace(/[?#].*$/, "");
+  return `${file.slice(file.lastIndexOf("/") + 1)}:${site.line}`;
+}
+
+export const canOpenCallSites = process.env.NODE_ENV === "development";
+
+// Resolved locations by raw "url:line:column"; many entries share a call site
+const resolvedCallSites = new Map<string, Promise<CallSite>>();
+
+/**
+ * Map a bundled location back to its original source file using the dev server's
+ * source maps. Outside development, or when that fails, the location is returned as is.
+ */
+export function resolveCallSite(site: CallSite): Promise<CallSite> {
+  if (!canOpenCallSites) return Promise.resolve(site);
+
+  const key = `${site.file}:${site.line}:${site.column}`;
+  let resolved = resolvedCallSites.get(key);
+  if (!resolved) {
+    resolved = fetch(ORIGINAL_FRAMES_ROUTE, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        frames: [
+          {
+            file: site.file,
+            methodName: "<unknown>",
+            lineNumber: site.line,
+            column: site.column,
+            arguments: [],
+          },
+        ],
+        isServer: false,
+        isEdgeServer: false,
+        isAppDirectory: true,
+      }),
+    })
+      .then(response => (response.ok ? response.json() : []))
+      .then(([result]) => {
+        const frame = result?.status === "fulfilled" ? result.value.originalStackFrame : null;
+        if (!frame?.file) return site;
+        return { file: frame.file, line: frame.lineNumber, column: frame.column };
+      })
+      .catch(() => site);
+    resolvedCallSites.set(key, resolved);
+  }
+  return resolved;
+}
+
+/** Whether a request is one made here to the dev server, which the network capture leaves out */
+export function isCallSiteRequest(url: string) {
+  const { pathname } = new URL(url, window.location.href);
+  return pathname === ORIGINAL_FRAMES_ROUTE || pathname === OPEN_IN_EDITOR_ROUTE;
+}
+
+/** Open the original source of a call site in the local editor (development only) */
+export function openCallSite(site: CallSite) {
+  if (!canOpenCallSites) return;
+
+  resolveCallSite(site)
+    .then(({ file, line, column }) => {
+      const params = new URLSearchParams({ file, line: String(line), column: String(column) });
+      return fetch(`${OPEN_IN_EDITOR_ROUTE}?${params}`);
+    })
+    .catch(() => {
+      // Nothing to do; the location is still shown in the panel
+    });
+}
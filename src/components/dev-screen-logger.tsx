@@ -1,10 +1,61 @@
 "use client"; // for use with next.js only
 
-import { useCallback, useEffect, useRef, useState } from "react";
-import { createRoot } from "react-dom/client";
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
-import { dracula } from "react-syntax-highlighter/dist/esm/styles/prism";
-import { replayLogsToScreenLogger } from "../../utils/early-logs";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { replayLogsToScreenLogger } from "./early-logs";
+import { captureGlobalErrors, describeCapturedError } from "./error-capture";
+import { captureNetworkRequests, describeNetworkRequest, formatBytes } from "./network-capture";
+import {
+  canOpenCallSites,
+  captureCallSite,
+  captureStackTrace,
+  formatCallSite,
+  isCallSiteRequest,
+  openCallSite,
+  resolveCallSite,
+} from "./call-site";
+import { listenToWorkerLogs } from "./worker-logs";
+import { createObjectInspector } from "./object-inspector";
+import {
+  DEFAULT_SNAPSHOT_BYTES,
+  DEFAULT_SNAPSHOT_DEPTH,
+  isLiveRef,
+  readLiveArg,
+  snapshotArgs,
+} from "./snapshot";
+import { applyFormatSpecifiers } from "./format-specifiers";
+import { hasAnsiCodes, parseAnsi, stripAnsi } from "./ansi";
+import { formatMessage, onFormattersChange } from "./message-formatters";
+import { parseSearchQuery } from "./log-query";
+import {
+  countSearchMatches,
+  focusSearchMatch,
+  highlightSearchMatches,
+  styleSearchMatches,
+} from "./search-highlight";
+import { createRowHeights, isScrolledToBottom } from "./virtual-list";
+import { createPausedQueue } from "./paused-queue";
+import {
+  CallSite,
+  DEFAULT_MAX_BYTES,
+  DEFAULT_MAX_ENTRIES,
+  formatEntryAsText,
+  formatErrorLocation,
+  levelsFrom,
+  LOG_LEVELS,
+  LogEntry,
+  LogLevel,
+  LogQuery,
+  LogSource,
+  logStore,
+  matchesQuery,
+  NetworkRequest,
+  NewLogEntry,
+  RepeatCollapsing,
+  ScreenLogApi,
+  ScreenLogChannel,
+  summarizeEntries,
+  ThrottleSummary,
+} from "./log-store";
 
 interface ScreenLoggerProps {
   color?: string;
@@ -33,6 +84,47 @@ interface ScreenLoggerProps {
   listenToKeystrokes?: boolean;
   /** Controls whether to show position change log messages */
   showPositionChangeLogs?: boolean;
+  /** Maximum number of log entries kept in memory; the oldest are evicted first */
+  maxEntries?: number;
+  /** Maximum estimated size in bytes of all kept log entries */
+  maxBytes?: number;
+  /** Log every fetch and XMLHttpRequest with status, timing, size, headers and body preview */
+  captureNetwork?: boolean;
+  /** Requests slower than this (ms) are shown as warnings when captureNetwork is on */
+  slowRequestThreshold?: number;
+  /** Only show entries at or above this level, e.g. "warn" for warnings and errors */
+  minLevel?: LogLevel;
+  /** Freeze the view while searching instead of adding new matches as they arrive */
+  pauseWhileSearching?: boolean;
+  /** Record where each console/screenLog call was made and show it next to the timestamp */
+  captureCallSites?: boolean;
+  /**
+   * What throttling does with a burst: "aggregate" coalesces each window into one expandable
+   * summary row, "drop" keeps the first log of each window and discards the rest
+   */
+  throttleMode?: "aggregate" | "drop";
+  /** Throttle windows (ms) the throttle button cycles through before pausing; empty uses the defaults */
+  throttleDelays?: number[];
+  /**
+   * Collapse consecutive repeats into one row with a repeat count: "identical" messages,
+   * "similar" ones that differ only in their numbers too, or "off"
+   */
+  collapseRepeats?: RepeatCollapsing;
+  /** Throttle automatically while more than autoThrottleThreshold entries arrive per second */
+  autoThrottle?: boolean;
+  /** Entries per second above which autoThrottle turns throttling on */
+  autoThrottleThreshold?: number;
+  /** Show in the header how many entries the last animation frame rendered, for debugging */
+  showRenderStats?: boolean;
+  /**
+   * Copy logged objects when they are logged, so later changes to them don't show. A "live"
+   * badge next to each copied argument reads its current value.
+   */
+  snapshot?: boolean;
+  /** Nesting depth below which snapshots stop copying */
+  snapshotMaxDepth?: number;
+  /** Estimated size (bytes) of each argument a snapshot copies before leaving out the rest */
+  snapshotMaxBytes?: number;
 }
 
 type LoggerPosition =
@@ -46,17 +138,68 @@ type LoggerPosition =
   | "bottom-left"
   | "bottom-right";
 
+const DEFAULT_THROTTLE_DELAYS = [250, 500, 1000];
+
+// Height assumed for log rows that haven't been rendered yet, and the gap below each row
+const ESTIMATED_ROW_HEIGHT = 44;
+const ROW_GAP = 2;
+
+// Console methods intercepted by the logger (console.clear is handled separately). Written as
+// a map so the compiler checks that it covers every method of a channel logger.
+const PATCHED_CONSOLE_METHODS = Object.keys({
+  log: true,
+  debug: true,
+  info: true,
+  warn: true,
+  error: true,
+  trace: true,
+  table: true,
+  group: true,
+  groupCollapsed: true,
+  groupEnd: true,
+  time: true,
+  timeLog: true,
+  timeEnd: true,
+  count: true,
+  countReset: true,
+  assert: true,
+  dir: true,
+} satisfies Record<keyof ScreenLogChannel, true>) as (keyof ScreenLogChannel)[];
+
+// A search match, as the nth match in the text of the entry with this id
+type SearchMatch = { id: number; nth: number };
+
+// What the component needs from the windowed list that initScreenLog renders
+type LogListControls = {
+  /** Rebuild the rows and search matches after the filter or search changed */
+  refresh: () => void;
+  /** Scroll to a search match and mark it as the current one */
+  showSearchMatch: (index: number) => void;
+};
+
 // In the interface for throttleConfigRef, we need to add the _previousState field
 type ThrottleConfig = {
   throttled: boolean;
   paused: boolean;
   delay: number;
+  /** Turned on by autoThrottle rather than by the user */
+  auto?: boolean;
   _previousState?: {
     throttled: boolean;
     delay: number;
   };
 };
 
+// Text with ANSI escape codes as spans in the colours it was printed with
+function appendAnsiText(content: HTMLElement, text: string) {
+  parseAnsi(text).forEach(segment => {
+    const span = document.createElement("span");
+    Object.assign(span.style, segment.style);
+    span.textContent = segment.text;
+    content.appendChild(span);
+  });
+}
+
 /**
  * ScreenLogger Component
  *
@@ -86,8 +229,30 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     enableTesting = true, // Default to false to avoid test signals unless explicitly enabled
     listenToKeystrokes = true, // New prop: default to listening to keystrokes
     showPositionChangeLogs = false, // Default to not showing position change logs
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    maxBytes = DEFAULT_MAX_BYTES,
+    captureNetwork = false, // Opt-in: wraps window.fetch and XMLHttpRequest
+    slowRequestThreshold = 1000,
+    minLevel = "debug", // Show every level
+    pauseWhileSearching = false,
+    captureCallSites = false, // Opt-in: parses a stack trace for every log call
+    throttleMode = "aggregate",
+    throttleDelays: throttleDelaysProp = DEFAULT_THROTTLE_DELAYS,
+    collapseRepeats = "identical",
+    autoThrottle = false,
+    autoThrottleThreshold = 50,
+    showRenderStats = false,
+    snapshot = false,
+    snapshotMaxDepth = DEFAULT_SNAPSHOT_DEPTH,
+    snapshotMaxBytes = DEFAULT_SNAPSHOT_BYTES,
   } = props;
 
+  // The valid throttle windows given, or the defaults when there are none
+  const throttleDelays = useMemo(() => {
+    const delays = throttleDelaysProp.filter(delay => Number.isFinite(delay) && delay > 0);
+    return delays.length > 0 ? delays : DEFAULT_THROTTLE_DELAYS;
+  }, [throttleDelaysProp]);
+
   const [isVisible, setIsVisible] = useState(initiallyVisible);
   const isInitializedRef = useRef(false);
   const logElementRef = useRef<HTMLDivElement | null>(null);
@@ -97,332 +262,71 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
   );
   const [loggerWidth, setLoggerWidth] = useState<string>(width); // Use the width prop
 
+  // Entries captured while paused; added to the store on resume unless discarded
+  const [pausedQueue] = useState(() => createPausedQueue(maxEntries, maxBytes));
+
+  // Keep the shared log store and the paused queue within the configured memory budget,
+  // and collapse repeats
+  useEffect(() => {
+    logStore.configure({ maxEntries, maxBytes, collapseRepeats });
+    pausedQueue.setLimits(maxEntries, maxBytes);
+  }, [maxEntries, maxBytes, collapseRepeats, pausedQueue]);
+
+  // Options read as each entry is captured, so changing their props applies from the next log on
+  const captureOptionsRef = useRef({
+    captureNetwork,
+    slowRequestThreshold,
+    captureCallSites,
+    throttleMode,
+    snapshot,
+    snapshotMaxDepth,
+    snapshotMaxBytes,
+  });
+  // Turns request logging on or off once the panel is set up
+  const setNetworkCaptureRef = useRef<((enabled: boolean) => void) | null>(null);
+  useEffect(() => {
+    captureOptionsRef.current = {
+      captureNetwork,
+      slowRequestThreshold,
+      captureCallSites,
+      throttleMode,
+      snapshot,
+      snapshotMaxDepth,
+      snapshotMaxBytes,
+    };
+  }, [
+    captureNetwork,
+    slowRequestThreshold,
+    captureCallSites,
+    throttleMode,
+    snapshot,
+    snapshotMaxDepth,
+    snapshotMaxBytes,
+  ]);
+  useEffect(() => {
+    setNetworkCaptureRef.current?.(captureNetwork);
+  }, [captureNetwork]);
+
   // --- SHARED TEXT FORMATTING FUNCTIONS ---
   // This function formats text with syntax highlighting similar to Chrome console
   const formatLogText = useCallback(
     (content: HTMLElement, arg: any, index: number, argsLength: number) => {
-      if (typeof arg === "object" && arg !== null) {
-        const details = document.createElement("details");
-        details.style.marginTop = "2px";
-        details.style.marginBottom = "2px";
-
-        const summary = document.createElement("summary");
-        summary.style.cursor = "pointer";
-        summary.style.fontWeight = "bold";
-        summary.style.color = "#4dabf7";
-        summary.style.fontSize = "0.9em";
-
-        // Create object preview
-        let objType = Array.isArray(arg) ? "Array" : "Object";
-        let preview = "";
-
-        try {
-          if (Array.isArray(arg)) {
-            // For arrays, show length and first few items
-            preview = `Array(${arg.length}) [`;
-            for (let i = 0; i < Math.min(arg.length, 3); i++) {
-              const val = arg[i];
-              preview +=
-                typeof val === "object" && val !== null
-                  ? Array.isArray(val)
-                    ? "Array"
-                    : "Object"
-                  : String(val).substring(0, 10);
-              if (i < Math.min(arg.length, 3) - 1) preview += ", ";
-            }
-            if (arg.length > 3) preview += ", ...";
-            preview += "]";
-          } else {
-            // For objects, show first few properties
-            preview = `{`;
-            const keys = Object.keys(arg);
-            for (let i = 0; i < Math.min(keys.length, 3); i++) {
-              const key = keys[i];
-              const val = arg[key];
-              preview += `${key}: `;
-              preview +=
-                typeof val === "object" && val !== null
-                  ? Array.isArray(val)
-                    ? "Array"
-                    : "Object"
-                  : String(val).substring(0, 10);
-              if (i < Math.min(keys.length, 3) - 1) preview += ", ";
-            }
-            if (keys.length > 3) preview += ", ...";
-            preview += "}";
-          }
-
-          // Trim if too long
-          if (preview.length > 100) {
-            preview = preview.substring(0, 97) + "...";
-          }
-        } catch (e) {
-          preview = objType;
-        }
-
-        summary.textContent = preview;
-        details.appendChild(summary);
-
-        // Create a container for React to render into
-        const reactContainer = document.createElement("div");
-        details.appendChild(reactContainer);
-
-        // Use ReactDOM to render the SyntaxHighlighter into the container
-        const root = createRoot(reactContainer);
-        root.render(
-          <SyntaxHighlighter
-            language="json"
-            style={dracula}
-            customStyle={{
-              background: "none",
-              fontSize: "0.85em",
-              margin: 0,
-              padding: 0,
-              color: "#d4d4d4",
-              lineHeight: "1.4em",
-            }}
-          >
-            {JSON.stringify(arg, null, 2)}
-          </SyntaxHighlighter>
-        );
-
-        content.appendChild(details);
+      if ((typeof arg === "object" && arg !== null) || typeof arg === "function") {
+        content.appendChild(createObjectInspector(arg));
       } else {
-        // Format primitives with syntax highlighting
-        const formatPrimitive = (value: any) => {
-          const span = document.createElement("span");
-
-          if (typeof value === "number") {
-            // Numbers in blue
-            span.style.color = "#5AAAFA"; // Blue for numbers
-            span.textContent = String(value);
-          } else if (typeof value === "string") {
-            // Check if it might be an identifier in brackets
-            if (value.match(/^\[.*\]$/)) {
-              // Identifier in brackets gets a special color
-              span.style.color = "#9B8FFF"; // Purple for identifiers in brackets
-              span.style.fontWeight = "bold";
-              span.textContent = value;
-            } else if (value.match(/^\w+:$/)) {
-              // Property names ending with colon get parameter color
-              span.style.color = "#FC8A58"; // Orange-red for property names (same as params)
-              span.textContent = value;
-            } else if (value.match(/^[a-zA-Z][a-zA-Z0-9]*$/)) {
-              // Identifier-like strings get another color
-              span.style.color = "#FFC16C"; // Orange for identifiers
-              span.textContent = value;
-            } else {
-              // Regular strings in green
-              span.style.color = "#FC8A58"; // Orange-red for strings
-              span.textContent = value;
-            }
-          } else if (typeof value === "boolean") {
-            // Booleans in purple
-            span.style.color = "#C792EA"; // Purple for booleans
-            span.textContent = String(value);
-          } else if (value === null) {
-            // null in gray-blue
-            span.style.color = "#82AAFF"; // Gray-blue for null
-            span.textContent = "null";
-          } else if (value === undefined) {
-            // undefined in gray
-            span.style.color = "#A9B7C6"; // Gray for undefined
-            span.textContent = "undefined";
-          } else {
-            // Default
-            span.textContent = String(value);
-          }
-
-          return span;
-        };
-
         // Try to parse the log message for better formatting
-        const text = String(arg);
-
-        // Check for pattern [ComponentName] actionName paramName value
-        // This regex captures these groups: [0]=full match, [1]=module, [2]=action, [3]=param, [4]=value
-        const commonLogRegex = /^\[([^\]]+)\]\s+(\S+)(?:\s+(\S+))?(?:\s+(.+))?$/;
-        const match = text.match(commonLogRegex);
-
-        if (match) {
-          // We found the common log pattern
-          const [, moduleName, actionName, paramName, restOfMessage] = match;
-
-          // Module name in brackets
-          const moduleSpan = document.createElement("span");
-          moduleSpan.style.color = "#9B8FFF"; // Purple for module
-          moduleSpan.style.fontWeight = "bold";
-          moduleSpan.textContent = `[${moduleName}] `;
-          content.appendChild(moduleSpan);
-
-          // Action name
-          const actionSpan = document.createElement("span");
-          actionSpan.style.color = "#FFC16C"; // Orange for action
-          actionSpan.textContent = actionName + " ";
-          content.appendChild(actionSpan);
-
-          // Parameter name with quotes
-          if (paramName) {
-            const paramSpan = document.createElement("span");
-            paramSpan.style.color = "#FC8A58"; // Orange-red for param
-            paramSpan.textContent = paramName + " ";
-            content.appendChild(paramSpan);
-          }
-
-          // Value or rest of message
-          if (restOfMessage) {
-            // Special case for [PatchSelectMenu Trigger Render] log format
-            const patchSelectMenuPattern = /^activePresetId:\s*(.+?),\s*currentPatchName:\s*(.+)$/;
-            const patchMatch = restOfMessage.match(patchSelectMenuPattern);
-
-            if (patchMatch) {
-              // Found the specific PatchSelectMenu pattern
-
-              // activePresetId property
-              const activeIdSpan = document.createElement("span");
-              activeIdSpan.style.color = "#FC8A58"; // Orange-red for property names
-              activeIdSpan.textContent = "activePresetId: ";
-              content.appendChild(activeIdSpan);
-
-              // activePresetId value
-              const activeIdValue = patchMatch[1];
-              const activeIdValueSpan = document.createElement("span");
-              if (activeIdValue === "null") {
-                activeIdValueSpan.style.color = "#82AAFF"; // Blue-gray for null
-              } else {
-                activeIdValueSpan.style.color = "#FFC16C"; // Orange for values
-              }
-              activeIdValueSpan.textContent = activeIdValue;
-              content.appendChild(activeIdValueSpan);
-
-              // Comma separator
-              content.appendChild(document.createTextNode(", "));
-
-              // currentPatchName property
-              const patchNameSpan = document.createElement("span");
-              patchNameSpan.style.color = "#FC8A58"; // Orange-red for property names
-              patchNameSpan.textContent = "currentPatchName: ";
-              content.appendChild(patchNameSpan);
-
-              // currentPatchName value
-              const patchNameValue = patchMatch[2];
-              const patchNameValueSpan = document.createElement("span");
-              if (patchNameValue === "null") {
-                patchNameValueSpan.style.color = "#82AAFF"; // Blue-gray for null
-              } else {
-                patchNameValueSpan.style.color = "#FFC16C"; // Orange for values
-              }
-              patchNameValueSpan.textContent = patchNameValue;
-              content.appendChild(patchNameValueSpan);
-            }
-            // Try to handle property/value patterns in a more general way
-            else if (restOfMessage.includes(":")) {
-              // This is likely a property:value format
-              const parts = [];
-              let currentPart = "";
-              let inValue = false;
-
-              // Simple parser for property:value pairs
-              for (let i = 0; i < restOfMessage.length; i++) {
-                const char = restOfMessage[i];
-
-                if (char === ":" && !inValue) {
-                  // Found a property-value separator
-                  parts.push({ type: "property", text: currentPart.trim() });
-                  parts.push({ type: "separator", text: ": " });
-                  currentPart = "";
-                  inValue = true;
-                } else if (char === "," && inValue) {
-                  // End of a value
-                  parts.push({ type: "value", text: currentPart.trim() });
-                  parts.push({ type: "comma", text: ", " });
-                  currentPart = "";
-                  inValue = false;
-                } else {
-                  currentPart += char;
-                }
-              }
-
-              // Don't forget the last part
-              if (currentPart.trim()) {
-                parts.push({ type: inValue ? "value" : "property", text: currentPart.trim() });
-              }
+        const text = typeof arg === "bigint" ? `${arg}n` : String(arg);
 
-              // Render the parts with appropriate colors
-              parts.forEach(part => {
-                if (part.type === "property") {
-                  const propSpan = document.createElement("span");
-                  propSpan.style.color = "#FC8A58"; // Orange-red for property names
-                  propSpan.textContent = part.text;
-                  content.appendChild(propSpan);
-                } else if (part.type === "value") {
-                  const valueSpan = document.createElement("span");
-                  if (part.text === "null" || part.text === "undefined") {
-                    valueSpan.style.color = part.text === "null" ? "#82AAFF" : "#A9B7C6";
-                  } else if (/^-?\d+(\.\d+)?$/.test(part.text)) {
-                    valueSpan.style.color = "#5AAAFA"; // Blue for numbers
-                  } else {
-                    valueSpan.style.color = "#FFC16C"; // Orange for other values
-                  }
-                  valueSpan.textContent = part.text;
-                  content.appendChild(valueSpan);
-                } else {
-                  // Separator or comma
-                  content.appendChild(document.createTextNode(part.text));
-                }
-              });
-            } else {
-              // No property:value patterns, proceed with the original formatting
-              // Check if it's a single number
-              const numMatch = /^\d+$/.test(restOfMessage);
-              if (numMatch) {
-                const valueSpan = document.createElement("span");
-                valueSpan.style.color = "#5AAAFA"; // Blue for numbers
-                valueSpan.textContent = restOfMessage;
-                content.appendChild(valueSpan);
-              } else {
-                // Handle the rest with formatPrimitive
-                const words = restOfMessage.split(/\s+/);
-                words.forEach((word, i) => {
-                  if (i > 0) content.appendChild(document.createTextNode(" "));
-
-                  // Check if this word is a number
-                  if (/^\d+$/.test(word)) {
-                    const numSpan = document.createElement("span");
-                    numSpan.style.color = "#5AAAFA"; // Blue for numbers
-                    numSpan.textContent = word;
-                    content.appendChild(numSpan);
-                  } else {
-                    content.appendChild(formatPrimitive(word));
-                  }
-                });
-              }
-            }
-          }
-        } else {
-          // No match with common pattern, just do basic word coloring
-          const parts = text.split(/(\s+)/);
-
-          parts.forEach(part => {
-            if (part.trim() === "") {
-              // Just a space
-              content.appendChild(document.createTextNode(part));
-            } else {
-              // Try to determine the type
-              // Check if it's a number
-              const numValue = Number(part);
-              if (!isNaN(numValue) && String(numValue) === part) {
-                const span = document.createElement("span");
-                span.style.color = "#5AAAFA"; // Blue for numbers
-                span.textContent = part;
-                content.appendChild(span);
-              } else {
-                content.appendChild(formatPrimitive(part));
-              }
-            }
-          });
+        // Text with ANSI escape codes keeps the colours it was printed with instead
+        if (hasAnsiCodes(text)) {
+          appendAnsiText(content, text);
+          if (index < argsLength - 1) content.appendChild(document.createTextNode(" "));
+          return;
         }
 
+        // [Module] messages, key: value lists and formatters registered by the app
+        formatMessage(content, text);
+
         if (index < argsLength - 1) {
           content.appendChild(document.createTextNode(" "));
         }
@@ -436,43 +340,114 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
   const throttleConfigRef = useRef<ThrottleConfig>({
     throttled: false,
     paused: false,
-    delay: 250,
+    delay: throttleDelays[0],
   });
   const [isLoggingThrottled, setIsLoggingThrottled] = useState(false);
-  const [throttleDelay, setThrottleDelay] = useState(250);
+  const [throttleDelay, setThrottleDelay] = useState(throttleDelays[0]);
   const [isLoggingPaused, setIsLoggingPaused] = useState(false);
+  // Ends the current aggregating throttle window
   const throttleTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const pendingLogsRef = useRef<Array<{ fn: string; args: any[] }>>([]);
+  // Entries logged during the current aggregating throttle window
+  const pendingLogsRef = useRef<NewLogEntry[]>([]);
   const lastLogTimeRef = useRef<number>(0);
+  // Entries logged since autoThrottle last measured the rate
+  const incomingCountRef = useRef(0);
+  // Rate shown in the header while autoThrottle is on, and why it throttled if it did
+  const logRateRef = useRef<{ rate: number; reason?: string } | null>(null);
+  // Entries committed in the last rendered frame and the most in any frame
+  const renderStatsRef = useRef({ lastFrame: 0, peak: 0 });
+  const showRenderStatsRef = useRef(showRenderStats);
+  showRenderStatsRef.current = showRenderStats;
+
+  // Add the entries queued while paused to the store, or drop them
+  const releasePausedQueue = useCallback(
+    (flush: boolean) => {
+      if (flush) pausedQueue.flush(logStore);
+      else pausedQueue.discard();
+    },
+    [pausedQueue]
+  );
 
-  const [searchQuery, setSearchQuery] = useState("");
+  // Close the current throttle window: a lone entry is added as is, a burst as one summary
+  const flushThrottleWindow = useCallback(() => {
+    if (throttleTimeoutRef.current) {
+      clearTimeout(throttleTimeoutRef.current);
+      throttleTimeoutRef.current = null;
+    }
+    const pending = pendingLogsRef.current;
+    pendingLogsRef.current = [];
+    if (pending.length === 1) {
+      logStore.add(pending[0]);
+    } else if (pending.length > 1) {
+      logStore.add(summarizeEntries(pending, throttleConfigRef.current.delay));
+    }
+  }, []);
 
-  // A helper function to filter logs based on the query.
+  const [searchQuery, setSearchQuery] = useState("");
+  // Channel tab selected in the header; null shows every entry
+  const [activeChannel, setActiveChannel] = useState<string | null>(null);
+  // Mirrors activeChannel for the imperatively rendered header and entries
+  const activeChannelRef = useRef<string | null>(null);
+  // Levels switched off with the header chips
+  const [hiddenLevels, setHiddenLevels] = useState<LogLevel[]>([]);
+  const hiddenLevelsRef = useRef<LogLevel[]>([]);
+  const minLevelRef = useRef(minLevel);
+  minLevelRef.current = minLevel;
+  // Query behind the current filter, if any; entries rendered later are checked against it too
+  const activeQueryRef = useRef<LogQuery | null>(null);
+  // An invalid query is reported next to the search box and leaves the search unfiltered
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  // Show every entry and only highlight the matches, instead of hiding non-matching entries
+  const [showAllMatches, setShowAllMatches] = useState(false);
+  // Matches in display order, as the nth match within an entry's text, and the one
+  // Enter/Shift+Enter last moved to. Only mounted rows have highlight elements, so matches
+  // are counted in the entries' text.
+  const searchMatchesRef = useRef<SearchMatch[]>([]);
+  const [searchMatchCount, setSearchMatchCount] = useState(0);
+  const [currentSearchMatch, setCurrentSearchMatch] = useState(0);
+  const currentSearchMatchRef = useRef(0);
+  // Patterns of the current search, for highlighting entries that arrive while searching
+  const searchHighlightsRef = useRef<RegExp[]>([]);
+  // Entries captured since the current search started
+  const searchingRef = useRef(false);
+  const [newSinceSearch, setNewSinceSearch] = useState(0);
+
+  // Windowed list of rendered entries, owned by the panel that initScreenLog builds
+  const logListRef = useRef<LogListControls | null>(null);
+
+  // A helper function to filter logs based on the query, the selected channel and the levels.
   const filterLogs = useCallback(() => {
-    const contentEl = document.getElementById("screenlog-content");
-    if (!contentEl) return;
-
-    // Get all log entries in the content container
-    Array.from(contentEl.children).forEach(el => {
-      // Skip the throttle indicator if it's somehow in the content
-      if (el.id === "screenlog-throttle-indicator") return;
-
-      const logEntry = el as HTMLElement;
-
-      if (searchQuery === "") {
-        // If search is empty, show all logs
-        logEntry.style.display = "";
-      } else if (el.textContent?.toLowerCase().includes(searchQuery.toLowerCase())) {
-        // Show logs that match the search
-        logEntry.style.display = "";
-      } else {
-        // Hide logs that don't match
-        logEntry.style.display = "none";
-      }
-    });
+    const levels = levelsFrom(minLevel).filter(level => !hiddenLevels.includes(level));
+    const query: LogQuery = {
+      ...(showAllMatches ? {} : parsedSearch.query),
+      channels: activeChannel ? [activeChannel] : undefined,
+      levels: levels.length < LOG_LEVELS.length ? levels : undefined,
+    };
+    const isFiltering = Object.values(query).some(value => value !== undefined);
+    activeQueryRef.current = isFiltering ? query : null;
+    searchHighlightsRef.current = parsedSearch.highlights ?? [];
+    // Before the panel exists, the query is only kept for the first render
+    if (!logListRef.current) return;
+
+    // Rebuild the rows from the log store rather than the rendered text, then find the
+    // matches in the entries that are still shown
+    logListRef.current.refresh();
+    currentSearchMatchRef.current = 0;
+    setCurrentSearchMatch(0);
+    if (searchMatchesRef.current.length > 0) logListRef.current.showSearchMatch(0);
 
     // Don't show search activity in logs to avoid cluttering
-  }, [searchQuery]);
+  }, [parsedSearch, showAllMatches, activeChannel, hiddenLevels, minLevel]);
+
+  // Step through the highlighted matches, wrapping around at either end
+  const goToSearchMatch = useCallback((step: number) => {
+    const matches = searchMatchesRef.current;
+    if (matches.length === 0) return;
+    const next = (currentSearchMatchRef.current + step + matches.length) % matches.length;
+    currentSearchMatchRef.current = next;
+    setCurrentSearchMatch(next);
+    logListRef.current?.showSearchMatch(next);
+  }, []);
 
   // Test signals
   const testSignalIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -482,15 +457,102 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
   const updateLogCount = useCallback(() => {
     if (!logElementRef.current) return;
     const header = document.getElementById("screenlog-header");
-    const contentEl = document.getElementById("screenlog-content");
 
-    if (header && contentEl) {
-      const count = Array.from(contentEl.children).length;
-      header.textContent = `Log (${count} entries)`;
+    if (header) {
       header.style.color = color;
+      header.textContent = "";
+
+      const channelCounts = logStore.getChannelCounts();
+      const channels = Object.keys(channelCounts);
+
+      // Fall back to all entries once the selected channel has no entries left
+      if (activeChannelRef.current && !channelCounts[activeChannelRef.current]) {
+        activeChannelRef.current = null;
+        setActiveChannel(null);
+      }
+
+      const title = document.createElement("div");
+      if (channels.length === 0) {
+        title.textContent = `Log (${logStore.count()} entries)`;
+      } else {
+        // One tab per channel, plus "All"
+        const addTab = (label: string, channel: string | null) => {
+          const tab = document.createElement("button");
+          tab.textContent = label;
+          tab.style.cssText =
+            "margin-right:6px;padding:2px 8px;border:none;border-radius:4px;cursor:pointer;" +
+            "font:inherit;font-size:0.85em;color:inherit;background:" +
+            (activeChannelRef.current === channel ? "rgba(255,255,255,0.15)" : "transparent") +
+            ";";
+          tab.addEventListener("click", () => {
+            activeChannelRef.current = channel;
+            setActiveChannel(channel);
+            updateLogCount();
+          });
+          title.appendChild(tab);
+        };
+        addTab(`All (${logStore.count()})`, null);
+        channels.forEach(channel => addTab(`${channel} (${channelCounts[channel]})`, channel));
+      }
+      header.appendChild(title);
+
+      // Toggle chip per level with its live count; levels below minLevel stay off
+      const levelCounts = logStore.getLevelCounts();
+      const allowedLevels = levelsFrom(minLevelRef.current);
+      const chips = document.createElement("div");
+      chips.style.cssText = "display:flex;gap:4px;font-weight:normal;";
+      LOG_LEVELS.forEach(level => {
+        const allowed = allowedLevels.includes(level);
+        const active = allowed && !hiddenLevelsRef.current.includes(level);
+        const chip = document.createElement("button");
+        chip.textContent = `${level} ${levelCounts[level]}`;
+        chip.disabled = !allowed;
+        chip.title = allowed
+          ? `Show or hide ${level} entries`
+          : `Below minLevel "${minLevelRef.current}"`;
+        chip.style.cssText =
+          "padding:1px 6px;border:1px solid rgba(255,255,255,0.2);border-radius:9999px;" +
+          "font:inherit;font-size:0.75em;color:inherit;" +
+          (active ? "background:rgba(255,255,255,0.15);" : "background:transparent;opacity:0.4;") +
+          (allowed ? "cursor:pointer;" : "cursor:not-allowed;");
+        chip.addEventListener("click", () => {
+          const hidden = hiddenLevelsRef.current;
+          hiddenLevelsRef.current = hidden.includes(level)
+            ? hidden.filter(hiddenLevel => hiddenLevel !== level)
+            : [...hidden, level];
+          setHiddenLevels(hiddenLevelsRef.current);
+          updateLogCount();
+        });
+        chips.appendChild(chip);
+      });
+      header.appendChild(chips);
+
+      if (logRateRef.current) {
+        const { rate, reason } = logRateRef.current;
+        const rateEl = document.createElement("div");
+        rateEl.style.cssText = "font-weight:normal;font-size:0.75em;opacity:0.8;";
+        rateEl.textContent = reason ? `${rate}/s · ${reason}` : `${rate}/s`;
+        rateEl.title = "Entries logged in the last second";
+        header.appendChild(rateEl);
+      }
+
+      if (showRenderStatsRef.current) {
+        const { lastFrame, peak } = renderStatsRef.current;
+        const statsEl = document.createElement("div");
+        statsEl.style.cssText = "font-weight:normal;font-size:0.75em;opacity:0.8;";
+        statsEl.textContent = `${lastFrame}/frame (peak ${peak})`;
+        statsEl.title = "Entries committed in the last animation frame, and the most in one frame";
+        header.appendChild(statsEl);
+      }
     }
   }, []);
 
+  // Re-apply the filter to everything already rendered whenever it changes
+  useEffect(() => {
+    filterLogs();
+    updateLogCount();
+  }, [filterLogs, updateLogCount]);
+
   // --- UPDATE THROTTLING INDICATOR ---
   const updateThrottlingIndicator = useCallback(() => {
     if (!logElementRef.current) return;
@@ -520,11 +582,45 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     if (paused) {
       indicator.style.backgroundColor = "oklch(0.681 0.162 75.834)";
       indicator.style.color = "white";
-      indicator.textContent = "PAUSED";
+      indicator.style.display = "flex";
+      indicator.style.alignItems = "center";
+      indicator.style.justifyContent = "center";
+      indicator.style.gap = "8px";
+
+      const label = document.createElement("span");
+      label.textContent = "PAUSED";
+      // Updated in place as entries are queued
+      const queuedCount = document.createElement("span");
+      queuedCount.id = "screenlog-queued-count";
+      queuedCount.style.fontWeight = "normal";
+      queuedCount.textContent = `${pausedQueue.length} queued`;
+      indicator.appendChild(label);
+      indicator.appendChild(queuedCount);
+
+      const resume = (flush: boolean) => {
+        throttleConfigRef.current.paused = false;
+        setIsLoggingPaused(false);
+        releasePausedQueue(flush);
+        updateThrottlingIndicator();
+      };
+      [
+        { text: "Resume", title: "Resume and show the queued entries", flush: true },
+        { text: "Discard", title: "Resume and drop the queued entries", flush: false },
+      ].forEach(({ text, title, flush }) => {
+        const button = document.createElement("button");
+        button.textContent = text;
+        button.title = title;
+        button.style.cssText =
+          "background:rgba(0,0,0,0.25);border:none;border-radius:3px;color:inherit;cursor:pointer;font-size:11px;padding:2px 6px;";
+        button.addEventListener("click", () => resume(flush));
+        indicator.appendChild(button);
+      });
     } else {
       indicator.style.backgroundColor = "oklch(0.577 0.245 27.325)";
       indicator.style.color = "white";
-      indicator.textContent = `THROTTLED: Every ${delay}ms`;
+      indicator.textContent = throttleConfigRef.current.auto
+        ? `AUTO-THROTTLED: Every ${delay}ms`
+        : `THROTTLED: Every ${delay}ms`;
     }
 
     // Make sure the indicator is at the bottom
@@ -532,7 +628,59 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 
     // Update log count whenever throttling indicator changes
     updateLogCount();
-  }, [updateLogCount, bgColor]);
+  }, [updateLogCount, bgColor, releasePausedQueue, pausedQueue]);
+
+  // Measure the incoming log rate once a second and throttle while it stays high. Throttling
+  // set by hand (toggleThrottling, pause) is left alone.
+  useEffect(() => {
+    if (!autoThrottle) return;
+    incomingCountRef.current = 0;
+    logRateRef.current = { rate: 0 };
+
+    const interval = setInterval(() => {
+      const rate = incomingCountRef.current;
+      incomingCountRef.current = 0;
+      const config = throttleConfigRef.current;
+      let reason = config.auto ? logRateRef.current?.reason : undefined;
+
+      if (!config.paused && !config.throttled && rate > autoThrottleThreshold) {
+        throttleConfigRef.current = {
+          throttled: true,
+          paused: false,
+          delay: throttleDelays[0],
+          auto: true,
+        };
+        lastLogTimeRef.current = Date.now();
+        reason = `auto-throttled when ${rate}/s passed the ${autoThrottleThreshold}/s limit`;
+        setIsLoggingThrottled(true);
+        setThrottleDelay(throttleDelays[0]);
+        updateThrottlingIndicator();
+      } else if (!config.paused && config.auto && rate < autoThrottleThreshold / 2) {
+        // Well below the threshold, so a rate hovering around it doesn't flip back and forth
+        flushThrottleWindow();
+        throttleConfigRef.current = { throttled: false, paused: false, delay: config.delay };
+        reason = undefined;
+        setIsLoggingThrottled(false);
+        updateThrottlingIndicator();
+      }
+
+      logRateRef.current = { rate, reason };
+      updateLogCount();
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      logRateRef.current = null;
+      updateLogCount();
+    };
+  }, [
+    autoThrottle,
+    autoThrottleThreshold,
+    throttleDelays,
+    flushThrottleWindow,
+    updateThrottlingIndicator,
+    updateLogCount,
+  ]);
 
   // Function to handle search state changes and control auto-pause
   const handleSearchChange = useCallback(
@@ -542,9 +690,11 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 
       // Update the search query state
       setSearchQuery(query);
+      searchingRef.current = isNowSearching;
+      if (wasPreviouslySearching !== isNowSearching) setNewSinceSearch(0);
 
       // Auto-pause/resume based on search state
-      if (!wasPreviouslySearching && isNowSearching) {
+      if (pauseWhileSearching && !wasPreviouslySearching && isNowSearching) {
         // Starting a search - pause logging if not already paused
         if (!throttleConfigRef.current.paused) {
           // Save current throttle state for later
@@ -576,6 +726,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 
           // Clean up
           delete throttleConfigRef.current._previousState;
+          releasePausedQueue(true);
 
           // Update the UI
           setIsLoggingPaused(false);
@@ -586,10 +737,9 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
         }
       }
 
-      // Apply the filter
-      setTimeout(filterLogs, 0);
+      // The filter is re-applied by the effect that watches filterLogs
     },
-    [searchQuery, filterLogs, updateThrottlingIndicator]
+    [searchQuery, pauseWhileSearching, updateThrottlingIndicator, releasePausedQueue]
   );
 
   // --- TEST SIGNALS ---
@@ -623,7 +773,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
   // --- COPY LOGS FUNCTION ---
   const copyLogs = useCallback(() => {
     if (logElementRef.current) {
-      const logsText = logElementRef.current.innerText;
+      const logsText = logStore.getEntries().map(formatEntryAsText).join("\n");
       if (navigator.clipboard) {
         navigator.clipboard
           .writeText(logsText)
@@ -660,42 +810,34 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 
   // --- TOGGLE THROTTLING ---
   const toggleThrottling = useCallback(() => {
-    if (throttleTimeoutRef.current) {
-      clearTimeout(throttleTimeoutRef.current);
-      throttleTimeoutRef.current = null;
-    }
+    // Whatever the current window collected is kept before the settings change
+    flushThrottleWindow();
     stopContinuousTestSignals();
     const current = throttleConfigRef.current;
+    // Off, then each configured delay in turn, then paused
+    const nextDelayIndex = current.throttled ? throttleDelays.indexOf(current.delay) + 1 : 0;
     let newThrottled = current.throttled;
     let newPaused = current.paused;
     let newDelay = current.delay;
     let message = "";
-    if (!current.throttled && !current.paused) {
-      newThrottled = true;
-      newPaused = false;
-      newDelay = 250;
-      message = "🔄 THROTTLING ENABLED: 250ms";
-      lastLogTimeRef.current = Date.now();
-    } else if (current.throttled && current.delay === 250) {
-      newThrottled = true;
-      newPaused = false;
-      newDelay = 500;
-      message = "🔄 THROTTLING SET TO: 500ms";
-    } else if (current.throttled && current.delay === 500) {
-      newThrottled = true;
+    if (current.paused) {
+      newThrottled = false;
       newPaused = false;
-      newDelay = 1000;
-      message = "🔄 THROTTLING SET TO: 1000ms";
-    } else if (current.throttled && current.delay === 1000) {
+      newDelay = throttleDelays[0];
+      message = "✅ THROTTLING DISABLED - Normal logging resumed";
+    } else if (nextDelayIndex > 0 && nextDelayIndex >= throttleDelays.length) {
       newThrottled = false;
       newPaused = true;
-      newDelay = 1000;
-      message = "⏸️ LOGGING PAUSED - No new logs will be shown";
+      message = "⏸️ LOGGING PAUSED - New logs are queued until you resume";
     } else {
-      newThrottled = false;
+      newThrottled = true;
       newPaused = false;
-      newDelay = 250;
-      message = "✅ THROTTLING DISABLED - Normal logging resumed";
+      // A delay that isn't in the list (the list changed) starts the cycle over
+      newDelay = throttleDelays[nextDelayIndex];
+      message = current.throttled
+        ? `🔄 THROTTLING SET TO: ${newDelay}ms`
+        : `🔄 THROTTLING ENABLED: ${newDelay}ms`;
+      lastLogTimeRef.current = Date.now();
     }
     throttleConfigRef.current = {
       throttled: newThrottled,
@@ -705,7 +847,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     setIsLoggingThrottled(newThrottled);
     setIsLoggingPaused(newPaused);
     setThrottleDelay(newDelay);
-    pendingLogsRef.current = [];
+    if (current.paused && !newPaused) releasePausedQueue(true);
     setTimeout(() => {
       if (window.screenLog) {
         window.screenLog.log(message);
@@ -720,6 +862,9 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     stopContinuousTestSignals,
     updateThrottlingIndicator,
     startContinuousTestSignals,
+    releasePausedQueue,
+    flushThrottleWindow,
+    throttleDelays,
   ]);
 
   // --- RESPONSIVE WIDTH & POSITIONING ---
@@ -1093,6 +1238,11 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
       headerDiv.style.padding = "15px 15px 10px 15px";
       headerDiv.style.borderBottom = "1px solid rgba(255, 255, 255, 0.1)";
       headerDiv.style.width = "100%";
+      headerDiv.style.display = "flex";
+      headerDiv.style.flexWrap = "wrap";
+      headerDiv.style.alignItems = "center";
+      headerDiv.style.justifyContent = "space-between";
+      headerDiv.style.gap = "8px";
       headerDiv.textContent = "Log Output (0 entries)";
 
       // Create content container for logs
@@ -1118,239 +1268,1202 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     document.body.appendChild(logEl);
     logElementRef.current = logEl;
 
-    _console.log = console.log;
+    PATCHED_CONSOLE_METHODS.forEach(name => {
+      _console[name] = console[name];
+    });
     _console.clear = console.clear;
-    _console.info = console.info;
-    _console.warn = console.warn;
-    _console.error = console.error;
-
-    function clear() {
-      if (logElementRef.current) {
-        // Find the content container
-        const contentEl = document.getElementById("screenlog-content");
-        const header = document.getElementById("screenlog-header");
 
-        if (contentEl) {
-          // Clear only the content container's children instead of removing it completely
-          contentEl.innerHTML = "";
-        }
+    // Console state that the browser tracks for group/time/count
+    const groupStack: number[] = [];
+    const collapsedGroups = new Set<number>();
+    const timers = new Map<string, number>();
+    const counters = new Map<string, number>();
+
+    // Call site of the console/screenLog call currently being handled
+    let currentCallSite: CallSite | undefined;
+
+    // Remove rendered entries; called when the log store is cleared
+    function clearRendered() {
+      collapsedGroups.clear();
+      resetRows([]);
+      updateEvictedMarker();
+      // The channels are gone with their entries
+      activeChannelRef.current = null;
+      setActiveChannel(null);
+      updateLogCount();
+    }
 
-        if (header) {
-          // Reset the header text
-          header.textContent = "Log Output (0 entries)";
-        }
-      }
+    function clear() {
+      logStore.clear();
 
       pendingLogsRef.current = [];
+      pausedQueue.reset();
       if (throttleTimeoutRef.current) {
         clearTimeout(throttleTimeoutRef.current);
         throttleTimeoutRef.current = null;
       }
     }
 
-    function genericLogger(color: string) {
-      return function (...args: any[]) {
-        if (!logElementRef.current || throttleConfigRef.current.paused) return;
-        const contentEl = document.getElementById("screenlog-content");
-        if (!contentEl) return;
+    const levelColors: Record<LogLevel, string> = {
+      log: _options.logColor,
+      debug: _options.logColor,
+      info: _options.infoColor,
+      warn: _options.warnColor,
+      error: _options.errorColor,
+    };
 
-        if (throttleConfigRef.current.throttled) {
-          const now = Date.now();
-          if (now - lastLogTimeRef.current >= throttleConfigRef.current.delay) {
-            // Determine log type based on color
-            const logType =
-              color === _options.errorColor
-                ? "error"
-                : color === _options.warnColor
-                  ? "warn"
-                  : color === _options.infoColor
-                    ? "info"
-                    : "log";
-
-            const borderColor =
-              logType === "error"
-                ? "#FC8181"
-                : logType === "warn"
-                  ? "#F6AD55"
-                  : logType === "info"
-                    ? "#63B3ED"
-                    : "#A0AEC0";
-
-            const el = createElement(
-              "div",
-              "line-height:1.4em;min-height:1.4em;white-space:pre-wrap;font-family:monospace;" +
-                "background:" +
-                (contentEl.children.length % 2 ? "rgba(0,0,0,0.2)" : "transparent") +
-                ";color:" +
-                color +
-                ";padding:2px 8px;margin:2px 0;border-radius:3px;" +
-                "border-left:3px solid " +
-                borderColor +
-                ";"
-            );
+    const levelBorderColors: Record<LogLevel, string> = {
+      log: "#A0AEC0",
+      debug: "#A0AEC0",
+      info: "#63B3ED",
+      warn: "#F6AD55",
+      error: "#FC8181",
+    };
 
-            // Add timestamp in the right corner
-            const header = document.createElement("div");
-            header.style.display = "flex";
-            header.style.justifyContent = "space-between";
-            header.style.fontSize = "0.8em";
-            header.style.marginBottom = "2px";
-            header.style.color = "#6b7280"; // Gray color for timestamp
-
-            const timestamp = document.createElement("span");
-            timestamp.style.opacity = "0.7";
-            timestamp.textContent = new Date().toLocaleTimeString();
-            header.appendChild(timestamp);
-
-            el.appendChild(header);
-
-            // Create content container
-            const content = document.createElement("div");
-            content.style.fontFamily = "monospace";
-            content.style.fontSize = "0.8em";
-
-            // Process each argument with improved object display
-            args.forEach((arg, index) => {
-              formatLogText(content, arg, index, args.length);
-            });
+    // Entries inside a collapsed console.group stay hidden until it is expanded
+    function isInCollapsedGroup(groupPath: number[]) {
+      return groupPath.some(id => collapsedGroups.has(id));
+    }
 
-            el.appendChild(content);
-            contentEl.appendChild(el);
+    function toggleGroup(groupId: number) {
+      if (collapsedGroups.has(groupId)) {
+        collapsedGroups.delete(groupId);
+      } else {
+        collapsedGroups.add(groupId);
+      }
+      // The group's entries are added to or removed from the rows
+      refreshRows();
+    }
 
-            updateThrottlingIndicator();
-            updateLogCount();
+    // console.table data laid out the way the browser does: an (index) column followed by one
+    // column per property, or a single Value column for primitives
+    function getTableCells(data: any, columns?: string[]) {
+      const entries = Object.entries<any>(data);
+      const isObjectRow = (value: any) => typeof value === "object" && value !== null;
+      const keys =
+        columns ??
+        Array.from(
+          new Set(entries.flatMap(([, value]) => (isObjectRow(value) ? Object.keys(value) : [])))
+        );
+      const hasValueColumn = entries.some(([, value]) => !isObjectRow(value));
 
-            if (_options.autoScroll) {
-              setTimeout(() => {
-                if (contentEl) {
-                  contentEl.scrollTop = contentEl.scrollHeight;
-                }
-              }, 0);
+      const headers = ["(index)", ...keys, ...(hasValueColumn ? ["Value"] : [])];
+      const rows = entries.map(([index, value]) => {
+        const cells = [index, ...keys.map(key => (isObjectRow(value) ? value[key] : undefined))];
+        if (hasValueColumn) cells.push(isObjectRow(value) ? undefined : value);
+        return cells;
+      });
+      return { headers, rows };
+    }
+
+    function renderTable(content: HTMLElement, data: any, columns?: string[]) {
+      const { headers, rows } = getTableCells(data, columns);
+      const table = createElement(
+        "table",
+        "border-collapse:collapse;margin:2px 0;font-size:0.95em;text-align:left;"
+      );
+      const cellCss = "border:1px solid rgba(255,255,255,0.15);padding:1px 6px;";
+
+      const headerRow = document.createElement("tr");
+      headers.forEach(key => {
+        const th = createElement("th", cellCss + "color:#9B8FFF;font-weight:bold;");
+        th.textContent = key;
+        headerRow.appendChild(th);
+      });
+      table.appendChild(headerRow);
+
+      rows.forEach(cells => {
+        const tr = document.createElement("tr");
+        cells.forEach((cell, cellIndex) => {
+          const td = createElement("td", cellCss);
+          if (cellIndex === 0 || cell !== undefined) {
+            formatLogText(td, cell, 0, 1);
+          }
+          tr.appendChild(td);
+        });
+        table.appendChild(tr);
+      });
+
+      content.appendChild(table);
+    }
+
+    function renderStack(content: HTMLElement, stack: string) {
+      const stackEl = createElement(
+        "pre",
+        "margin:2px 0 0 12px;opacity:0.7;white-space:pre-wrap;font-size:0.95em;"
+      );
+      stackEl.textContent = stack;
+      content.appendChild(stackEl);
+    }
+
+    // The message and what goes with it (table, stacks, request details, the entries of a
+    // throttle summary), for a row or for an entry listed in a summary
+    function renderEntryContent(content: HTMLElement, entry: NewLogEntry) {
+      if (entry.summary) {
+        renderSummaryHeading(content, entry.summary);
+      }
+
+      if (entry.method === "table") {
+        renderTable(content, entry.args[0], entry.args[1]);
+      } else {
+        // Process each argument with improved object display
+        renderArgs(content, entry.args, entry.liveArgs);
+      }
+
+      if (entry.method === "dir") {
+        // console.dir shows the object expanded
+        content.querySelector("details")?.setAttribute("open", "");
+      }
+
+      if (entry.error?.stack) {
+        renderStack(content, entry.error.stack);
+      }
+
+      if (entry.stack) {
+        // console.trace shows the call stack beneath the message
+        renderStack(content, entry.stack);
+      }
+
+      if (entry.network) {
+        renderNetworkDetails(content, entry.network);
+      }
+
+      if (entry.summary) {
+        renderSummaryEntries(content, entry.summary);
+      }
+    }
+
+    // The text renderEntryContent shows, in the pieces search highlighting matches in: the
+    // message without the insides of logged objects, the stacks and the request details. The
+    // entries of a throttle summary are left out, since they are only built once it is opened.
+    function getEntrySearchTexts(entry: NewLogEntry): string[] {
+      const isShownAsText = (value: any) =>
+        !((typeof value === "object" && value !== null) || typeof value === "function");
+      const toText = (value: any) =>
+        stripAnsi(typeof value === "bigint" ? `${value}n` : String(value));
+      const texts: string[] = [];
+
+      if (entry.summary) texts.push(formatSummaryHeading(entry.summary));
+
+      if (entry.method === "table") {
+        const { headers, rows } = getTableCells(entry.args[0], entry.args[1]);
+        texts.push(...headers);
+        rows.forEach(cells => {
+          cells.forEach((cell, cellIndex) => {
+            if ((cellIndex === 0 || cell !== undefined) && isShownAsText(cell)) {
+              texts.push(toText(cell));
             }
-            lastLogTimeRef.current = now;
+          });
+        });
+      } else {
+        // As renderArgs lays them out
+        const { segments, restStart } = applyFormatSpecifiers(entry.args);
+        const textSegments = segments.flatMap(segment => ("text" in segment ? [segment.text] : []));
+        if (segments.every(segment => "text" in segment && !segment.css)) {
+          if (segments.length > 0) texts.push(toText(textSegments.join("")));
+        } else {
+          texts.push(...textSegments.map(toText));
+        }
+        texts.push(...entry.args.slice(restStart).filter(isShownAsText).map(toText));
+      }
+
+      if (entry.error?.stack) texts.push(entry.error.stack);
+      if (entry.stack) texts.push(entry.stack);
+
+      if (entry.network) {
+        texts.push("Headers & body");
+        getNetworkSections(entry.network).forEach(([title, body]) => {
+          texts.push(title);
+          if (typeof body === "string") texts.push(body);
+          else Object.entries(body).forEach(([key, value]) => texts.push(`${key}: `, value));
+        });
+      }
+
+      if (entry.summary) texts.push(`All ${entry.summary.entries.length} entries`);
+      return texts;
+    }
+
+    // "42 entries in 250ms: 1 error, 41 debug", shown above the latest message of a burst
+    function formatSummaryHeading(summary: ThrottleSummary) {
+      const breakdown = [...LOG_LEVELS]
+        .reverse()
+        .filter(level => summary.levelCounts[level] > 0)
+        .map(level => `${summary.levelCounts[level]} ${level}`)
+        .join(", ");
+      return `${summary.entries.length} entries in ${summary.window}ms: ${breakdown}. Latest:`;
+    }
+
+    function renderSummaryHeading(content: HTMLElement, summary: ThrottleSummary) {
+      const heading = createElement("div", "opacity:0.8;font-style:italic;margin-bottom:2px;");
+      heading.textContent = formatSummaryHeading(summary);
+      content.appendChild(heading);
+    }
+
+    // Expandable list of every entry in a throttle summary, built when first opened
+    function renderSummaryEntries(content: HTMLElement, summary: ThrottleSummary) {
+      const details = document.createElement("details");
+      details.style.marginTop = "2px";
+      details.style.marginBottom = "2px";
+
+      const label = document.createElement("summary");
+      label.style.cursor = "pointer";
+      label.style.color = "#4dabf7";
+      label.style.fontSize = "0.9em";
+      label.textContent = `All ${summary.entries.length} entries`;
+      details.appendChild(label);
+
+      details.addEventListener("toggle", () => {
+        if (!details.open || details.children.length > 1) return;
+        summary.entries.forEach(item => {
+          const line = createElement(
+            "div",
+            "margin:2px 0 0 12px;padding-left:6px;" +
+              "border-left:2px solid " +
+              levelBorderColors[item.level] +
+              ";color:" +
+              levelColors[item.level] +
+              ";"
+          );
+          if (item.groupPath?.length)
+            line.style.marginLeft = `${12 + item.groupPath.length * 12}px`;
+          if (item.method === "group" || item.method === "groupCollapsed") {
+            line.style.fontWeight = "bold";
           }
-          return;
+          const time = createElement("span", "opacity:0.7;margin-right:6px;");
+          time.textContent = new Date(item.timestamp ?? 0).toLocaleTimeString();
+          const location = item.error && formatErrorLocation(item.error);
+          if (location) time.textContent += ` ${location}`;
+          line.appendChild(time);
+          renderEntryContent(line, item);
+          details.appendChild(line);
+        });
+      });
+      content.appendChild(details);
+    }
+
+    // Arguments of an entry, with the format specifiers in the first one applied. An
+    // unstyled message is formatted like any other string; %c styles apply as they are.
+    function renderArgs(content: HTMLElement, args: any[], liveArgs?: any[]) {
+      const renderLive = (index: number) => {
+        const live = liveArgs?.[index];
+        if (isLiveRef(live)) renderLiveValue(content, live);
+      };
+      const { segments, restStart } = applyFormatSpecifiers(args);
+
+      if (segments.every(segment => "text" in segment && !segment.css)) {
+        const message = segments.map(segment => ("text" in segment ? segment.text : "")).join("");
+        if (segments.length > 0) formatLogText(content, message, 0, args.length - restStart + 1);
+      } else {
+        segments.forEach(segment => {
+          const span = document.createElement("span");
+          if (segment.css) span.style.cssText = segment.css;
+          if ("text" in segment) {
+            if (hasAnsiCodes(segment.text)) appendAnsiText(span, segment.text);
+            else span.textContent = segment.text;
+          } else {
+            formatLogText(span, segment.value, 0, 1);
+          }
+          content.appendChild(span);
+          if (!("text" in segment)) renderLive(segment.index);
+        });
+        if (restStart < args.length) content.appendChild(document.createTextNode(" "));
+      }
+
+      args.slice(restStart).forEach((arg, i) => {
+        formatLogText(content, arg, i, args.length - restStart);
+        renderLive(restStart + i);
+      });
+    }
+
+    // "live" badge after an argument logged as a snapshot; each click shows its current value,
+    // or that it was garbage collected
+    function renderLiveValue(content: HTMLElement, ref: WeakRef<object>) {
+      const badge = createElement(
+        "button",
+        "margin:0 4px;padding:0 6px;border:1px solid rgba(255,255,255,0.2);" +
+          "border-radius:9999px;background:transparent;color:#4dabf7;font:inherit;" +
+          "font-size:0.75em;cursor:pointer;"
+      );
+      const showCollected = () => {
+        badge.textContent = "collected";
+        badge.title = "Shown as it was when logged. The app no longer references it.";
+      };
+      badge.textContent = "live";
+      badge.title = "Shown as it was when logged. Click to read its current value.";
+      if (readLiveArg(ref).collected) showCollected();
+      let current: HTMLElement | null = null;
+      badge.addEventListener("click", () => {
+        const { value, collected } = readLiveArg(ref);
+        const next = createElement("div", "margin-left:12px;");
+        const label = createElement("span", "opacity:0.7;font-size:0.85em;");
+        const time = new Date().toLocaleTimeString();
+        if (collected) {
+          showCollected();
+          label.textContent = `Garbage collected by ${time}`;
+          next.appendChild(label);
+        } else {
+          label.textContent = `Current value at ${time}:`;
+          next.appendChild(label);
+          const inspector = createObjectInspector(value);
+          inspector.setAttribute("open", "");
+          next.appendChild(inspector);
         }
+        if (current) current.replaceWith(next);
+        else badge.after(next);
+        current = next;
+      });
+      content.appendChild(badge);
+    }
 
-        // Normal logging when not throttled
-        // Determine log type based on color
-        const logType =
-          color === _options.errorColor
-            ? "error"
-            : color === _options.warnColor
-              ? "warn"
-              : color === _options.infoColor
-                ? "info"
-                : "log";
-
-        const borderColor =
-          logType === "error"
-            ? "#FC8181"
-            : logType === "warn"
-              ? "#F6AD55"
-              : logType === "info"
-                ? "#63B3ED"
-                : "#A0AEC0";
-
-        const el = createElement(
-          "div",
-          "line-height:1.4em;min-height:1.4em;white-space:pre-wrap;font-family:monospace;" +
-            "background:" +
-            (contentEl.children.length % 2 ? "rgba(0,0,0,0.2)" : "transparent") +
-            ";color:" +
-            color +
-            ";padding:2px 8px;margin:2px 0;border-radius:3px;" +
-            "border-left:3px solid " +
-            borderColor +
-            ";"
+    // Expandable headers and body preview for a captured request
+    function renderNetworkDetails(content: HTMLElement, request: NetworkRequest) {
+      const details = document.createElement("details");
+      details.style.marginTop = "2px";
+      details.style.marginBottom = "2px";
+
+      const summary = document.createElement("summary");
+      summary.style.cursor = "pointer";
+      summary.style.color = "#4dabf7";
+      summary.style.fontSize = "0.9em";
+      summary.textContent = "Headers & body";
+      details.appendChild(summary);
+
+      const addSection = (title: string, body: Record<string, string> | string) => {
+        const section = createElement("div", "margin:4px 0 0 12px;");
+        const heading = createElement("div", "font-weight:bold;color:#9B8FFF;");
+        heading.textContent = title;
+        section.appendChild(heading);
+
+        if (typeof body === "string") {
+          const pre = createElement("pre", "margin:0;white-space:pre-wrap;word-break:break-all;");
+          pre.textContent = body;
+          section.appendChild(pre);
+        } else {
+          Object.entries(body).forEach(([key, value]) => {
+            const line = document.createElement("div");
+            const keySpan = document.createElement("span");
+            keySpan.style.color = "#FC8A58"; // Orange-red for property names
+            keySpan.textContent = `${key}: `;
+            line.appendChild(keySpan);
+            line.appendChild(document.createTextNode(value));
+            section.appendChild(line);
+          });
+        }
+        details.appendChild(section);
+      };
+
+      getNetworkSections(request).forEach(([title, body]) => addSection(title, body));
+      content.appendChild(details);
+    }
+
+    // The sections of a request's details that have something in them, as [title, fields or text]
+    function getNetworkSections(
+      request: NetworkRequest
+    ): [string, Record<string, string> | string][] {
+      const general: Record<string, string> = {
+        "Request URL": request.url,
+        "Request method": request.method,
+        Status: request.error ?? `${request.status} ${request.statusText ?? ""}`.trim(),
+        Duration: `${Math.round(request.duration)} ms`,
+      };
+      if (request.requestSize !== undefined) {
+        general["Request size"] = formatBytes(request.requestSize);
+      }
+      if (request.responseSize !== undefined) {
+        general["Response size"] = formatBytes(request.responseSize);
+      }
+
+      const sections: [string, Record<string, string> | string | undefined][] = [
+        ["General", general],
+        ["Request headers", request.requestHeaders],
+        ["Response headers", request.responseHeaders],
+        ["Request body", request.requestBody],
+        ["Response body", request.responseBody],
+      ];
+      return sections.filter(
+        (section): section is [string, Record<string, string> | string] =>
+          section[1] !== undefined &&
+          (typeof section[1] === "string" || Object.keys(section[1]).length > 0)
+      );
+    }
+
+    // "page.tsx:12" next to the timestamp; in development it opens the file in the editor
+    function renderCallSite(container: HTMLElement, callSite: CallSite) {
+      const callSiteEl = document.createElement("span");
+      callSiteEl.style.marginLeft = "8px";
+      callSiteEl.textContent = formatCallSite(callSite);
+      callSiteEl.title = callSite.file;
+
+      if (canOpenCallSites) {
+        callSiteEl.style.cursor = "pointer";
+        callSiteEl.style.textDecoration = "underline dotted";
+        callSiteEl.title = "Open in editor";
+        callSiteEl.addEventListener("click", () => openCallSite(callSite));
+        // Swap the bundled location for the original source file once it is known
+        resolveCallSite(callSite).then(resolved => {
+          callSiteEl.textContent = formatCallSite(resolved);
+        });
+      }
+
+      container.appendChild(callSiteEl);
+    }
+
+    // Build the element for a single store entry; rows are built when they scroll into view
+    function createRow(entry: LogEntry) {
+      const el = createElement(
+        "div",
+        "line-height:1.4em;min-height:1.4em;white-space:pre-wrap;font-family:monospace;" +
+          "background:" +
+          // Striped by id so a row keeps its stripe as rows above it come and go
+          (entry.id % 2 ? "rgba(0,0,0,0.2)" : "transparent") +
+          ";color:" +
+          levelColors[entry.level] +
+          `;padding:2px 8px;margin:0 0 ${ROW_GAP}px;border-radius:3px;` +
+          "border-left:3px solid " +
+          levelBorderColors[entry.level] +
+          ";"
+      );
+      el.dataset.logId = String(entry.id);
+
+      // The first entry captured since mounting is set apart from the replayed ones
+      if (preMountCount > 0 && rows[preMountCount] === entry) {
+        el.style.borderTop = "1px dashed rgba(255,255,255,0.1)";
+      }
+
+      // Indent entries nested in console.group
+      const groupPath = entry.groupPath ?? [];
+      if (groupPath.length > 0) {
+        el.style.marginLeft = `${groupPath.length * 12}px`;
+      }
+
+      // Add timestamp in the right corner
+      const header = document.createElement("div");
+      header.style.display = "flex";
+      header.style.justifyContent = "space-between";
+      header.style.fontSize = "0.8em";
+      header.style.marginBottom = "2px";
+      header.style.color = "#6b7280"; // Gray color for timestamp
+
+      const timestamp = document.createElement("span");
+      timestamp.style.opacity = "0.7";
+      timestamp.textContent = new Date(entry.timestamp).toLocaleTimeString();
+      if (entry.lastTimestamp) {
+        // Collapsed repeats show when they were first and last logged
+        timestamp.textContent += ` – ${new Date(entry.lastTimestamp).toLocaleTimeString()}`;
+      }
+      header.appendChild(timestamp);
+
+      if (entry.repeatCount) {
+        const repeatBadge = createElement(
+          "span",
+          "margin-left:8px;padding:0 5px;border-radius:8px;" +
+            "background:rgba(255,255,255,0.15);color:#e5e7eb;font-weight:bold;"
         );
+        repeatBadge.textContent = `×${entry.repeatCount}`;
+        repeatBadge.title = `Logged ${entry.repeatCount} times in a row`;
+        timestamp.appendChild(repeatBadge);
+      }
 
-        // Add timestamp in the right corner
-        const header = document.createElement("div");
-        header.style.display = "flex";
-        header.style.justifyContent = "space-between";
-        header.style.fontSize = "0.8em";
-        header.style.marginBottom = "2px";
-        header.style.color = "#6b7280"; // Gray color for timestamp
+      if (entry.callSite) {
+        renderCallSite(timestamp, entry.callSite);
+      }
 
-        const timestamp = document.createElement("span");
-        timestamp.style.opacity = "0.7";
-        timestamp.textContent = new Date().toLocaleTimeString();
-        header.appendChild(timestamp);
+      if (entry.worker) {
+        // Source badge for entries forwarded from a Web Worker
+        const badge = createElement(
+          "span",
+          "margin-left:8px;padding:0 4px;border-radius:3px;" +
+            "background:rgba(139,92,246,0.25);color:#c4b5fd;"
+        );
+        badge.textContent = entry.worker;
+        timestamp.appendChild(badge);
+      }
 
-        el.appendChild(header);
+      el.appendChild(header);
+
+      // Create content container
+      const content = document.createElement("div");
+      content.dataset.screenlogContent = "";
+      content.style.fontFamily = "monospace";
+      content.style.fontSize = "0.8em";
+
+      if (entry.method === "group" || entry.method === "groupCollapsed") {
+        // Group header with an expand/collapse toggle
+        const toggle = document.createElement("span");
+        toggle.textContent = collapsedGroups.has(entry.id) ? "▸ " : "▾ ";
+        content.style.cursor = "pointer";
+        content.style.fontWeight = "bold";
+        content.appendChild(toggle);
+        content.addEventListener("click", () => toggleGroup(entry.id));
+      }
 
-        // Create content container
-        const content = document.createElement("div");
-        content.style.fontFamily = "monospace";
-        content.style.fontSize = "0.8em";
+      renderEntryContent(content, entry);
 
-        // Process each argument with improved object display
-        args.forEach((arg, index) => {
-          formatLogText(content, arg, index, args.length);
-        });
+      if (entry.error) {
+        // Uncaught errors show where they were thrown
+        const location = formatErrorLocation(entry.error);
+        if (location) {
+          const locationEl = document.createElement("span");
+          locationEl.style.opacity = "0.7";
+          locationEl.textContent = location;
+          header.appendChild(locationEl);
+        }
+      }
 
-        el.appendChild(content);
-        contentEl.appendChild(el);
-        updateLogCount();
+      el.appendChild(content);
+      return el;
+    }
 
-        if (_options.autoScroll) {
-          setTimeout(() => {
-            if (contentEl) {
-              contentEl.scrollTop = contentEl.scrollHeight;
-            }
-          }, 0);
+    // Add an entry to the store, queue it while paused, or drop it when throttled
+    function addEntry(entry: NewLogEntry) {
+      if (!logElementRef.current) return null;
+      incomingCountRef.current++;
+
+      const { snapshot, snapshotMaxDepth, snapshotMaxBytes } = captureOptionsRef.current;
+      const fullEntry: NewLogEntry = {
+        ...entry,
+        ...(snapshot &&
+          snapshotArgs(entry.args, { maxDepth: snapshotMaxDepth, maxBytes: snapshotMaxBytes })),
+        timestamp: entry.timestamp ?? Date.now(),
+        callSite: entry.callSite ?? currentCallSite,
+        // Worker logs come from another thread, outside the page's open groups
+        groupPath: entry.source === "worker" ? [] : groupStack.map(pausedQueue.resolveGroupId),
+      };
+
+      if (throttleConfigRef.current.paused) {
+        const groupId = pausedQueue.push(fullEntry);
+        const queuedCount = document.getElementById("screenlog-queued-count");
+        if (queuedCount) queuedCount.textContent = `${pausedQueue.length} queued`;
+        // A queued group header is nested into under its stand-in id
+        return groupId === undefined ? null : { id: groupId };
+      }
+
+      if (throttleConfigRef.current.throttled) {
+        if (captureOptionsRef.current.throttleMode === "aggregate") {
+          // Collect the window; it's added as one summary row when the window ends
+          pendingLogsRef.current.push(fullEntry);
+          if (!throttleTimeoutRef.current) {
+            throttleTimeoutRef.current = setTimeout(
+              flushThrottleWindow,
+              throttleConfigRef.current.delay
+            );
+          }
+          return null;
         }
+        // Keep at most one log per throttle window. Uncaught errors are never dropped.
+        if (fullEntry.source !== "uncaught") {
+          const now = Date.now();
+          if (now - lastLogTimeRef.current < throttleConfigRef.current.delay) return null;
+          lastLogTimeRef.current = now;
+        }
+      }
+
+      return logStore.add(fullEntry);
+    }
+
+    // Stack of the caller, without the "Error" line and the logger's own frames
+    const formatElapsed = (start: number) => `${(performance.now() - start).toFixed(3)} ms`;
+
+    // The console API, with the same semantics as the browser console. Entries are tagged with
+    // the channel, if any.
+    function createConsoleApi(source: LogSource, channel?: string): ScreenLogChannel {
+      const add = (entry: Omit<NewLogEntry, "source" | "channel">) =>
+        addEntry({ ...entry, source, channel });
+      const openGroup = (method: "group" | "groupCollapsed", label: any[]) => {
+        const entry = add({
+          level: "log",
+          method,
+          args: label.length > 0 ? label : ["console.group"],
+        });
+        // Keep the nesting depth right even when the header itself was dropped
+        groupStack.push(entry ? entry.id : 0);
+      };
+
+      return {
+        log: (...args: any[]) => add({ level: "log", args }),
+        debug: (...args: any[]) => add({ level: "debug", args }),
+        info: (...args: any[]) => add({ level: "info", args }),
+        warn: (...args: any[]) => add({ level: "warn", args }),
+        error: (...args: any[]) => add({ level: "error", args }),
+        trace: (...args: any[]) => {
+          add({
+            level: "log",
+            method: "trace",
+            args: args.length > 0 ? args : ["console.trace"],
+            // Below this method and the decorator around it
+            stack: captureStackTrace(2),
+          });
+        },
+        table: (data?: any, columns?: string[]) => {
+          if (typeof data !== "object" || data === null) {
+            add({ level: "log", args: [data] });
+            return;
+          }
+          add({
+            level: "log",
+            method: "table",
+            args: columns ? [data, columns] : [data],
+          });
+        },
+        group: (...label: any[]) => openGroup("group", label),
+        groupCollapsed: (...label: any[]) => openGroup("groupCollapsed", label),
+        groupEnd: () => {
+          groupStack.pop();
+        },
+        time: (label = "default") => {
+          if (timers.has(label)) {
+            add({
+              level: "warn",
+              method: "time",
+              args: [`Timer '${label}' already exists`],
+            });
+            return;
+          }
+          timers.set(label, performance.now());
+        },
+        timeLog: (label = "default", ...data: any[]) => {
+          const start = timers.get(label);
+          if (start === undefined) {
+            add({
+              level: "warn",
+              method: "timeLog",
+              args: [`Timer '${label}' does not exist`],
+            });
+            return;
+          }
+          add({
+            level: "log",
+            method: "timeLog",
+            args: [`${label}: ${formatElapsed(start)}`, ...data],
+          });
+        },
+        timeEnd: (label = "default") => {
+          const start = timers.get(label);
+          if (start === undefined) {
+            add({
+              level: "warn",
+              method: "timeEnd",
+              args: [`Timer '${label}' does not exist`],
+            });
+            return;
+          }
+          timers.delete(label);
+          add({
+            level: "log",
+            method: "timeEnd",
+            args: [`${label}: ${formatElapsed(start)}`],
+          });
+        },
+        count: (label = "default") => {
+          const count = (counters.get(label) ?? 0) + 1;
+          counters.set(label, count);
+          add({ level: "log", method: "count", args: [`${label}: ${count}`] });
+        },
+        countReset: (label = "default") => {
+          if (!counters.has(label)) {
+            add({
+              level: "warn",
+              method: "countReset",
+              args: [`Count for '${label}' does not exist`],
+            });
+            return;
+          }
+          counters.set(label, 0);
+        },
+        assert: (condition?: boolean, ...data: any[]) => {
+          if (condition) return;
+          const args = data.length > 0 ? ["Assertion failed:", ...data] : ["Assertion failed"];
+          add({ level: "error", method: "assert", args });
+        },
+        dir: (item?: any) => {
+          add({ level: "log", method: "dir", args: [item] });
+        },
       };
     }
 
-    const log = genericLogger(_options.logColor);
-    const info = genericLogger(_options.infoColor);
-    const warn = genericLogger(_options.warnColor);
-    const error = genericLogger(_options.errorColor);
+    const consoleApi = createConsoleApi("console");
+    const screenLogApi = createConsoleApi("screenLog");
+    const log = screenLogApi.log;
+
+    // Errors that never reach console.error: uncaught exceptions, rejections, failed resources
+    const stopErrorCapture = captureGlobalErrors(error => {
+      addEntry({ level: "error", args: describeCapturedError(error), source: "uncaught", error });
+    });
 
     function originalFnCallDecorator(fn: Function, fnName: string) {
       return function (...args: any[]) {
-        fn.apply(null, args);
+        // Picked up by addEntry for whatever entry this call produces
+        currentCallSite = captureOptionsRef.current.captureCallSites
+          ? captureCallSite()
+          : undefined;
+        try {
+          fn.apply(null, args);
+        } finally {
+          currentCallSite = undefined;
+        }
         if (typeof _console[fnName] === "function") {
           _console[fnName].apply(console, args);
         }
       };
     }
 
+    // --- WINDOWED LOG LIST ---
+    // Only the rows in and near the viewport are mounted, between two spacers that stand in
+    // for the rest (see virtual-list.ts). Store events are applied once per animation frame.
+    const contentEl = logEl.querySelector<HTMLElement>("#screenlog-content")!;
+    const preMountHeading = createElement(
+      "div",
+      "display:none;font-family:monospace;font-size:0.75em;color:#6b7280;padding:4px 8px;"
+    );
+    preMountHeading.textContent = "Before mount";
+    const listEl = createElement("div", "");
+    const topSpacer = createElement("div", "");
+    const bottomSpacer = createElement("div", "");
+    listEl.append(topSpacer, bottomSpacer);
+    contentEl.append(preMountHeading, listEl);
+
+    // Entries shown in the content: those that pass the filter and aren't inside a collapsed
+    // group, with the ones replayed from the early-log buffer first
+    let rows: LogEntry[] = [];
+    let preMountCount = 0;
+    const rowHeights = createRowHeights(ESTIMATED_ROW_HEIGHT);
+    const mountedRows = new Map<number, HTMLElement>();
+    // Which <details> were open in rows that scrolled out of the window, by entry id
+    const openDetails = new Map<number, number[]>();
+    // Follow new rows while scrolled to the bottom; otherwise keep the rows in view in place
+    let stickToBottom = _options.autoScroll;
+    // Where the list last scrolled itself to, so the scroll event that follows isn't taken
+    // for the user scrolling away from the bottom
+    let ownScrollTop: number | undefined;
+    // The search match Enter/Shift+Enter last moved to
+    let currentMatch: SearchMatch | undefined;
+    // Search matches per entry id, for the highlight patterns they were counted with
+    const searchMatchCounts = new Map<number, { entry: LogEntry; count: number }>();
+    let countedHighlights: RegExp[] = [];
+
+    // Store changes and resized rows waiting for the next frame. Frames don't run in hidden
+    // tabs, so evicted entries are dropped from these right away and only the ids of rows
+    // already in the list wait for the frame.
+    let pendingAdded: LogEntry[] = [];
+    const pendingEvicted = new Set<number>();
+    const pendingRepeats = new Map<number, LogEntry>();
+    const pendingResized = new Set<HTMLElement>();
+    // Store entries added or repeated since the last frame, shown or not
+    let pendingCommitCount = 0;
+    let pendingAddCount = 0;
+    let pendingEvictCount = 0;
+    let renderFrame = 0;
+
+    const isRowShown = (entry: LogEntry) =>
+      (!activeQueryRef.current || matchesQuery(entry, activeQueryRef.current)) &&
+      !isInCollapsedGroup(entry.groupPath ?? []);
+
+    // Row offsets are measured from the top of the list, below the markers above it
+    const getListScrollTop = () => contentEl.scrollTop - listEl.offsetTop;
+
+    // Matches of the current search in an entry's text, counted in the text the highlighting
+    // reaches. Counts are kept per entry until the entry (a repeat) or the search changes.
+    function findSearchMatches(entry: LogEntry): SearchMatch[] {
+      const highlights = searchHighlightsRef.current;
+      if (highlights.length === 0) return [];
+      if (highlights !== countedHighlights) {
+        searchMatchCounts.clear();
+        countedHighlights = highlights;
+      }
+      let counted = searchMatchCounts.get(entry.id);
+      if (counted?.entry !== entry) {
+        counted = { entry, count: countSearchMatches(getEntrySearchTexts(entry), highlights) };
+        searchMatchCounts.set(entry.id, counted);
+      }
+      return Array.from({ length: counted.count }, (_, nth) => ({ id: entry.id, nth }));
+    }
+
+    function updateSearchMatches(matches: SearchMatch[]) {
+      searchMatchesRef.current = matches;
+      setSearchMatchCount(matches.length);
+    }
+
+    const rowObserver = new ResizeObserver(observed => {
+      // Measured in the next frame; changing the layout from here would trigger another
+      // round of observations
+      observed.forEach(({ target }) => pendingResized.add(target as HTMLElement));
+      scheduleRender();
+    });
+    rowObserver.observe(contentEl);
+
+    function mountRow(entry: LogEntry) {
+      const el = createRow(entry);
+      const open = openDetails.get(entry.id);
+      if (open) {
+        // Lazily built <details> fill in on toggle, which fires asynchronously; fire it now
+        // so the nested ones exist before their turn to be reopened
+        open.forEach(index => {
+          const details = el.querySelectorAll("details")[index];
+          if (!details) return;
+          details.open = true;
+          details.dispatchEvent(new Event("toggle"));
+        });
+        openDetails.delete(entry.id);
+      }
+
+      const content = el.querySelector<HTMLElement>("[data-screenlog-content]");
+      if (content && searchHighlightsRef.current.length > 0) {
+        const marks = highlightSearchMatches([content], searchHighlightsRef.current);
+        if (currentMatch?.id === entry.id) styleSearchMatches(marks, currentMatch.nth);
+      }
+
+      mountedRows.set(entry.id, el);
+      rowObserver.observe(el);
+      return el;
+    }
+
+    function unmountRow(id: number) {
+      const el = mountedRows.get(id);
+      if (!el) return;
+      const open: number[] = [];
+      el.querySelectorAll("details").forEach((details, index) => {
+        if (details.open) open.push(index);
+      });
+      if (open.length > 0) openDetails.set(id, open);
+      rowObserver.unobserve(el);
+      el.remove();
+      mountedRows.delete(id);
+    }
+
+    // Mount the rows in the window, in order, and unmount the ones that left it
+    function renderWindow() {
+      const { start, end, paddingTop, paddingBottom } = rowHeights.getWindow(
+        getListScrollTop(),
+        contentEl.clientHeight
+      );
+      const shown = rows.slice(start, end);
+      const shownIds = new Set(shown.map(entry => entry.id));
+      mountedRows.forEach((_, id) => {
+        if (!shownIds.has(id)) unmountRow(id);
+      });
+
+      let previous: HTMLElement = topSpacer;
+      shown.forEach(entry => {
+        const el = mountedRows.get(entry.id) ?? mountRow(entry);
+        if (previous.nextSibling !== el) previous.after(el);
+        previous = el;
+      });
+      topSpacer.style.height = `${paddingTop}px`;
+      bottomSpacer.style.height = `${paddingBottom}px`;
+    }
+
+    // Apply a change to the rows, keeping the rows in view where they were, or the list
+    // at the bottom if it was there
+    function updateRows(change: () => void) {
+      const anchor = stickToBottom ? undefined : rowHeights.getAnchor(getListScrollTop());
+      change();
+      preMountHeading.style.display = preMountCount > 0 ? "block" : "none";
+      renderWindow();
+
+      if (stickToBottom) {
+        contentEl.scrollTop = contentEl.scrollHeight;
+      } else if (anchor) {
+        const scrollTop = rowHeights.resolveAnchor(anchor);
+        if (scrollTop !== undefined) contentEl.scrollTop = scrollTop + listEl.offsetTop;
+      }
+      ownScrollTop = contentEl.scrollTop;
+      renderWindow();
+    }
+
+    // Replace every row, e.g. after the filter changed
+    function resetRows(entries: readonly LogEntry[]) {
+      pendingAdded = [];
+      pendingEvicted.clear();
+      pendingRepeats.clear();
+      updateRows(() => {
+        const shown = entries.filter(isRowShown);
+        const preMount = shown.filter(entry => entry.preMount);
+        rows = [...preMount, ...shown.filter(entry => !entry.preMount)];
+        preMountCount = preMount.length;
+        rowHeights.setKeys(rows.map(entry => entry.id));
+        Array.from(mountedRows.keys()).forEach(unmountRow);
+      });
+      currentMatch = undefined;
+      updateSearchMatches(rows.flatMap(findSearchMatches));
+    }
+
+    function refreshRows() {
+      resetRows(logStore.getEntries());
+    }
+
+    function scheduleRender() {
+      if (renderFrame) return;
+      renderFrame = requestAnimationFrame(() => {
+        renderFrame = 0;
+        commitPendingChanges();
+      });
+    }
+
+    // Apply the store changes and row measurements collected since the last frame, then
+    // update the header and indicator once for all of them
+    function commitPendingChanges() {
+      const added = pendingAdded;
+      const evicted = pendingEvictCount > 0;
+      pendingAdded = [];
+      pendingEvictCount = 0;
+      const hadPreMountRows = preMountCount > 0;
+      let matches = searchMatchesRef.current;
+
+      updateRows(() => {
+        if (pendingEvicted.size > 0) {
+          rows = rows.filter(entry => !pendingEvicted.has(entry.id));
+          preMountCount = rows.filter(entry => entry.preMount).length;
+          pendingEvicted.forEach(unmountRow);
+          matches = matches.filter(match => !pendingEvicted.has(match.id));
+          rowHeights.setKeys(rows.map(entry => entry.id));
+          pendingEvicted.clear();
+        }
+
+        pendingRepeats.forEach((entry, id) => {
+          const index = rowHeights.indexOf(id);
+          if (index === -1) return;
+          // Rebuilt with the new repeat count the next time it is mounted
+          rows[index] = entry;
+          unmountRow(id);
+          matches = [...matches.filter(match => match.id !== id), ...findSearchMatches(entry)];
+        });
+        pendingRepeats.clear();
+
+        const addedPreMount = added.filter(entry => entry.preMount);
+        const addedSinceMount = added.filter(entry => !entry.preMount);
+        if (addedPreMount.length > 0) {
+          rows.splice(preMountCount, 0, ...addedPreMount);
+          preMountCount += addedPreMount.length;
+          rowHeights.setKeys(rows.map(entry => entry.id));
+        }
+        rows.push(...addedSinceMount);
+        rowHeights.append(addedSinceMount.map(entry => entry.id));
+        matches = [...matches, ...added.flatMap(findSearchMatches)];
+
+        // The divider above the first entry since mounting goes with the last replayed one
+        if (hadPreMountRows && preMountCount === 0) {
+          Array.from(mountedRows.keys()).forEach(unmountRow);
+        }
+
+        pendingResized.forEach(el => {
+          if (el === contentEl || !el.isConnected) return;
+          rowHeights.measure(Number(el.dataset.logId), el.offsetHeight + ROW_GAP);
+        });
+        pendingResized.clear();
+      });
+
+      if (matches !== searchMatchesRef.current) updateSearchMatches(matches);
+
+      if (pendingCommitCount === 0 && !evicted) return;
+      if (pendingCommitCount > 0) {
+        const stats = renderStatsRef.current;
+        stats.lastFrame = pendingCommitCount;
+        stats.peak = Math.max(stats.peak, pendingCommitCount);
+      }
+      if (searchingRef.current && pendingAddCount > 0) {
+        const count = pendingAddCount;
+        setNewSinceSearch(current => current + count);
+      }
+      pendingCommitCount = 0;
+      pendingAddCount = 0;
+      updateEvictedMarker();
+      if (throttleConfigRef.current.throttled) updateThrottlingIndicator();
+      updateLogCount();
+    }
+
+    // Scroll a search match into view and mark it as the current one
+    function showSearchMatch(index: number) {
+      const match = searchMatchesRef.current[index];
+      const rowIndex = match ? rowHeights.indexOf(match.id) : -1;
+      if (rowIndex === -1) return;
+      currentMatch = match;
+
+      contentEl.scrollTop =
+        listEl.offsetTop + rowHeights.getOffset(rowIndex) - contentEl.clientHeight / 3;
+      renderWindow();
+      const marks = Array.from(
+        contentEl.querySelectorAll<HTMLElement>("mark[data-screenlog-match]")
+      );
+      const rowMarks = Array.from(
+        mountedRows.get(match.id)?.querySelectorAll<HTMLElement>("mark[data-screenlog-match]") ?? []
+      );
+      const target = rowMarks[Math.min(match.nth, rowMarks.length - 1)];
+      focusSearchMatch(marks, target ? marks.indexOf(target) : -1);
+    }
+
+    contentEl.addEventListener("scroll", () => {
+      // Rows taller than estimated can leave the list short of the bottom after it scrolled
+      // there itself; it keeps following them
+      if (contentEl.scrollTop !== ownScrollTop) {
+        stickToBottom = _options.autoScroll && isScrolledToBottom(contentEl);
+      }
+      ownScrollTop = undefined;
+      scheduleRender();
+    });
+
+    logListRef.current = { refresh: refreshRows, showSearchMatch };
+
+    // Show how many entries were dropped to stay within the memory budget
+    function updateEvictedMarker() {
+      const evictedCount = logStore.getEvictedCount();
+      let marker = document.getElementById("screenlog-evicted-marker");
+      if (evictedCount === 0) {
+        marker?.remove();
+        return;
+      }
+
+      if (!marker) {
+        marker = createElement(
+          "div",
+          "font-family:monospace;font-size:0.75em;text-align:center;color:#6b7280;" +
+            "padding:4px 8px;margin:2px 0;border-bottom:1px dashed rgba(255,255,255,0.1);"
+        );
+        marker.id = "screenlog-evicted-marker";
+      }
+      const noun = evictedCount === 1 ? "entry" : "entries";
+      marker.textContent = `${evictedCount} ${noun} evicted`;
+      contentEl.prepend(marker);
+    }
+
+    // console.groupCollapsed starts out collapsed; the user can expand it afterwards
+    function collapseNewGroup(entry: LogEntry) {
+      if (entry.method === "groupCollapsed") collapsedGroups.add(entry.id);
+    }
+
+    // Render whatever the store already holds (e.g. after a remount), then follow it
+    updateEvictedMarker();
+    logStore.getEntries().forEach(collapseNewGroup);
+    refreshRows();
+    const unsubscribe = logStore.subscribe(event => {
+      if (event.type === "add") {
+        collapseNewGroup(event.entry);
+        if (isRowShown(event.entry)) pendingAdded.push(event.entry);
+        pendingAddCount++;
+        pendingCommitCount++;
+      } else if (event.type === "repeat") {
+        // A repeat still waiting to be added replaces the queued entry instead
+        const queued = pendingAdded.findIndex(entry => entry.id === event.entry.id);
+        if (queued !== -1) pendingAdded[queued] = event.entry;
+        else pendingRepeats.set(event.entry.id, event.entry);
+        pendingCommitCount++;
+      } else if (event.type === "evict") {
+        const evictedIds = new Set(event.entries.map(entry => entry.id));
+        pendingAdded = pendingAdded.filter(entry => !evictedIds.has(entry.id));
+        evictedIds.forEach(id => {
+          pendingRepeats.delete(id);
+          searchMatchCounts.delete(id);
+          if (rowHeights.indexOf(id) !== -1) pendingEvicted.add(id);
+        });
+        pendingEvictCount += evictedIds.size;
+      } else if (event.type === "clear") {
+        searchMatchCounts.clear();
+        clearRendered();
+        return;
+      }
+
+      scheduleRender();
+    });
+
+    // Opt-in request logging; failed requests render as errors and slow ones as warnings
+    let stopNetworkCapture = () => {};
+    function setNetworkCapture(enabled: boolean) {
+      stopNetworkCapture();
+      stopNetworkCapture = enabled
+        ? captureNetworkRequests(request => {
+            // The panel's own source-map and open-in-editor requests
+            if (isCallSiteRequest(request.url)) return;
+            const failed = request.error !== undefined || (request.status ?? 0) >= 400;
+            const slow = request.duration >= captureOptionsRef.current.slowRequestThreshold;
+            addEntry({
+              level: failed ? "error" : slow ? "warn" : "log",
+              args: [describeNetworkRequest(request)],
+              source: "network",
+              network: request,
+            });
+          })
+        : () => {};
+    }
+    setNetworkCapture(captureOptionsRef.current.captureNetwork);
+    setNetworkCaptureRef.current = setNetworkCapture;
+
+    // Rows are built with the formatters registered at the time; rebuild them when those change
+    const stopFormatterUpdates = onFormattersChange(refreshRows);
+
+    // Web Workers registered through window.screenLog.registerWorker()
+    const workerListeners = new Set<() => void>();
+    let workerCount = 0;
+
+    function registerWorker(worker: Worker, label = `worker-${++workerCount}`) {
+      const stopListening = listenToWorkerLogs(worker, ({ level, args, timestamp }) => {
+        addEntry({ level, args, timestamp, source: "worker", worker: label });
+      });
+      const unregister = () => {
+        stopListening();
+        workerListeners.delete(unregister);
+      };
+      workerListeners.add(unregister);
+      return unregister;
+    }
+
     function destroy() {
-      console.log = _console.log;
+      unsubscribe();
+      stopFormatterUpdates();
+      cancelAnimationFrame(renderFrame);
+      rowObserver.disconnect();
+      logListRef.current = null;
+      stopErrorCapture();
+      stopNetworkCapture();
+      setNetworkCaptureRef.current = null;
+      workerListeners.forEach(unregister => unregister());
+      PATCHED_CONSOLE_METHODS.forEach(name => {
+        console[name] = _console[name];
+      });
       console.clear = _console.clear;
-      console.info = _console.info;
-      console.warn = _console.warn;
-      console.error = _console.error;
       const screenlogElements = document.getElementsByClassName("screenlog");
       Array.from(screenlogElements).forEach(el => {
         if (el.parentNode) el.parentNode.removeChild(el);
       });
       isInitializedRef.current = false;
       logElementRef.current = null;
-      if (throttleTimeoutRef.current) {
-        clearTimeout(throttleTimeoutRef.current);
-        throttleTimeoutRef.current = null;
+      // The shared store keeps what the last throttle window collected
+      flushThrottleWindow();
+    }
+
+    // Console methods that record their call site and also reach the browser console
+    function decorateConsoleApi(api: ScreenLogChannel): ScreenLogChannel {
+      const decorated = { ...api };
+      PATCHED_CONSOLE_METHODS.forEach(name => {
+        decorated[name] = originalFnCallDecorator(api[name], name);
+      });
+      return decorated;
+    }
+
+    // window.screenLog.channel("audio"): the usual methods, with entries tagged with the channel
+    const channelLoggers = new Map<string, ScreenLogChannel>();
+
+    function channel(name: string) {
+      let logger = channelLoggers.get(name);
+      if (!logger) {
+        logger = decorateConsoleApi(createConsoleApi("screenLog", name));
+        channelLoggers.set(name, logger);
       }
+      return logger;
     }
 
-    console.log = originalFnCallDecorator(log, "log");
+    PATCHED_CONSOLE_METHODS.forEach(name => {
+      console[name] = originalFnCallDecorator(consoleApi[name], name);
+    });
     console.clear = originalFnCallDecorator(clear, "clear");
-    console.info = originalFnCallDecorator(info, "info");
-    console.warn = originalFnCallDecorator(warn, "warn");
-    console.error = originalFnCallDecorator(error, "error");
-
-    window.screenLog = {
-      log: originalFnCallDecorator(log, "log"),
+    const screenLog: ScreenLogApi = {
+      ...decorateConsoleApi(screenLogApi),
       clear: originalFnCallDecorator(clear, "clear"),
-      info: originalFnCallDecorator(info, "info"),
-      warn: originalFnCallDecorator(warn, "warn"),
-      error: originalFnCallDecorator(error, "error"),
-      destroy: destroy,
+      destroy,
+      registerWorker,
+      channel,
     };
 
+    window.screenLog = screenLog;
+
     isInitializedRef.current = true;
     log(`Screen logger initialized.`);
     if (throttleConfigRef.current.throttled || throttleConfigRef.current.paused) {
@@ -1376,6 +2489,8 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     updateThrottlingIndicator,
     startContinuousTestSignals,
     initiallyVisible,
+    flushThrottleWindow,
+    pausedQueue,
   ]);
 
   const toggleVisibility = useCallback(
@@ -1412,12 +2527,8 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     if (logElementRef.current) {
       logElementRef.current.style.display = isVisible ? "block" : "none";
       if (!isVisible) {
-        if (throttleTimeoutRef.current) {
-          clearTimeout(throttleTimeoutRef.current);
-          throttleTimeoutRef.current = null;
-        }
+        flushThrottleWindow();
         stopContinuousTestSignals();
-        pendingLogsRef.current = [];
       } else {
         handleWindowResize();
         if (enableTesting) {
@@ -1437,6 +2548,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     handleWindowResize,
     stopContinuousTestSignals,
     startContinuousTestSignals,
+    flushThrottleWindow,
   ]);
 
   useEffect(() => {
@@ -1487,6 +2599,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
         e.preventDefault();
         setIsLoggingPaused(!isLoggingPaused);
         throttleConfigRef.current.paused = !throttleConfigRef.current.paused;
+        if (!throttleConfigRef.current.paused) releasePausedQueue(true);
         updateThrottlingIndicator();
         return;
       }
@@ -1556,6 +2669,10 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     toggleVisibility,
     listenToKeystrokes,
     copyLogs,
+    isLoggingPaused,
+    releasePausedQueue,
+    updateThrottlingIndicator,
+    handleKeyboardResize,
   ]);
 
   useEffect(() => {
@@ -1620,6 +2737,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
                 paused: !current.paused,
               };
               setIsLoggingPaused(!isLoggingPaused);
+              if (current.paused) releasePausedQueue(true);
               updateThrottlingIndicator();
             }}
             className="cursor-pointer rounded bg-zinc-800 px-2 py-1 text-xs text-white shadow-md transition-colors hover:bg-zinc-700"
@@ -1666,12 +2784,50 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
           onChange={e => {
             handleSearchChange(e.target.value);
           }}
-          onKeyUp={filterLogs}
-          placeholder={searchQuery ? "🔍 Searching (paused)" : "Search logs... (Ctrl+F)"}
+          onKeyDown={e => {
+            // Enter / Shift+Enter step through the highlighted matches
+            if (e.key === "Enter") {
+              e.preventDefault();
+              goToSearchMatch(e.shiftKey ? -1 : 1);
+            }
+          }}
+          placeholder={
+            searchQuery && pauseWhileSearching ? "🔍 Searching (paused)" : "Search logs... (Ctrl+F)"
+          }
+          title={
+            'Text, "phrase", /regex/, level:warn, module:Name, after:10:30, before:5m, -exclude'
+          }
           data-searching={searchQuery.length > 0}
-          className="w-[200px] rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-xs text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-600 focus:ring-1 focus:ring-zinc-600 focus:outline-none data-[searching=true]:bg-zinc-800/90 data-[searching=true]:placeholder:text-zinc-300"
+          data-invalid={!!parsedSearch.error}
+          className="w-[200px] rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-xs text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-600 focus:ring-1 focus:ring-zinc-600 focus:outline-none data-[invalid=true]:border-red-500 data-[searching=true]:bg-zinc-800/90 data-[searching=true]:placeholder:text-zinc-300"
         />
       )}
+      {isVisible && searchQuery && !parsedSearch.error && (
+        <>
+          <span className="rounded bg-zinc-800 px-2 py-1 text-xs whitespace-nowrap text-zinc-300 shadow-md">
+            {searchMatchCount > 0 ? `${currentSearchMatch + 1} / ${searchMatchCount}` : "0 / 0"}
+          </span>
+          {newSinceSearch > 0 && (
+            <span className="rounded bg-zinc-800 px-2 py-1 text-xs whitespace-nowrap text-zinc-400 shadow-md">
+              {newSinceSearch} new {newSinceSearch === 1 ? "entry" : "entries"} since search started
+            </span>
+          )}
+          <button
+            onClick={() => setShowAllMatches(showAll => !showAll)}
+            title="Show every entry and highlight the matches instead of hiding the rest"
+            className={`cursor-pointer rounded px-2 py-1 text-xs whitespace-nowrap text-white shadow-md transition-colors ${
+              showAllMatches ? "bg-zinc-600 hover:bg-zinc-500" : "bg-zinc-800 hover:bg-zinc-700"
+            }`}
+          >
+            Show all
+          </button>
+        </>
+      )}
+      {isVisible && parsedSearch.error && (
+        <span role="alert" className="rounded bg-zinc-800 px-2 py-1 text-xs text-red-400 shadow-md">
+          {parsedSearch.error}
+        </span>
+      )}
     </div>
   );
 }
@@ -1679,14 +2835,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 // Fix the TypeScript declaration for window.screenLog
 declare global {
   interface Window {
-    screenLog?: {
-      log: (...args: any[]) => void;
-      clear: () => void;
-      info: (...args: any[]) => void;
-      warn: (...args: any[]) => void;
-      error: (...args: any[]) => void;
-      destroy: () => void;
-    };
+    screenLog?: ScreenLogApi;
     toggleScreenLog?: () => void;
   }
 }
@@ -0,0 +1,126 @@
+// Inline bootstrap that starts capturing logs before any bundle has loaded.
+// It installs the same window.__earlyLogs buffer as early-logs.ts, but as a plain
+// dependency-free string that can run as the very first script on the page, so logs
+// from earlier scripts and from hydration are kept too. early-logs.ts sees the buffer
+// and leaves it in place, and ScreenLogger takes it over through
+// window.__earlyLogsHandOff() when it mounts.
+
+// Maximum number of early logs kept by default; the oldest are dropped first
+const DEFAULT_MAX_EARLY_LOGS = 500;
+
+export interface EarlyLogsScriptOptions {
+  /** Maximum number of logs buffered before the oldest are dropped */
+  maxEntries?: number;
+}
+
+// Written as ES5 without any imports, since nothing is compiled or polyfilled at this point.
+// Keep the buffered shape in sync with EarlyLog in early-logs.ts.
+export function createEarlyLogsScript({
+  maxEntries = DEFAULT_MAX_EARLY_LOGS,
+}: EarlyLogsScriptOptions = {}): string {
+  return `(function () {
+  if (window.__earlyLogsHandOff) return;
+  var max = ${Math.max(1, Math.floor(maxEntries))};
+  var buffer = [];
+  var stopped = false;
+  var methods = ["log", "debug", "info", "warn", "error"];
+  var originals = {};
+  var patches = {};
+
+  function push(log) {
+    if (stopped) return;
+    buffer.push(log);
+    if (buffer.length > max) buffer.splice(0, buffer.length - max);
+  }
+
+  function pushError(error, text) {
+    push({ type: "error", args: [text], timestamp: Date.now(), error: error });
+  }
+
+  function onError(event) {
+    if (event instanceof ErrorEvent) {
+      var err = event.error;
+      var message = err instanceof Error ? String(err) : event.message;
+      pushError({
+        kind: "error",
+        message: message,
+        stack: err instanceof Error ? err.stack : undefined,
+        url: event.filename || undefined,
+        line: event.lineno || undefined,
+        column: event.colno || undefined
+      }, "Uncaught " + message);
+    } else if (event.target && event.target !== window) {
+      var target = event.target;
+      var url = target.src || target.href || undefined;
+      var resource = ("<" + target.tagName.toLowerCase() + "> " + (url || "")).trim();
+      pushError({ kind: "resource", message: resource, url: url }, "Failed to load resource: " + resource);
+    }
+  }
+
+  function onRejection(event) {
+    var reason = event.reason;
+    var message;
+    if (reason instanceof Error) {
+      message = String(reason);
+    } else {
+      try {
+        message = typeof reason === "string" ? reason : JSON.stringify(reason);
+      } catch (e) {
+        message = String(reason);
+      }
+    }
+    pushError({
+      kind: "unhandledrejection",
+      message: message,
+      stack: reason instanceof Error ? reason.stack : undefined
+    }, "Uncaught (in promise) " + message);
+  }
+
+  window.addEventListener("error", onError, true);
+  window.addEventListener("unhandledrejection", onRejection);
+
+  methods.forEach(function (method) {
+    var original = console[method];
+    originals[method] = original;
+    patches[method] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      push({ type: method, args: args, timestamp: Date.now() });
+      return original.apply(console, args);
+    };
+    console[method] = patches[method];
+  });
+
+  window.__earlyLogs = buffer;
+
+  // Stop capturing and give the buffered logs to whoever takes over. Console methods
+  // patched again since (e.g. by ScreenLogger) are left alone; ours just pass through.
+  window.__earlyLogsHandOff = function () {
+    if (!stopped) {
+      stopped = true;
+      window.removeEventListener("error", onError, true);
+      window.removeEventListener("unhandledrejection", onRejection);
+      methods.forEach(function (method) {
+        if (console[method] === patches[method]) console[method] = originals[method];
+      });
+    }
+    return buffer.splice(0);
+  };
+})();`;
+}
+
+export const EARLY_LOGS_SCRIPT = createEarlyLogsScript();
+
+/**
+ * Renders the bootstrap as a plain inline script. Place it as the first child of <head> in the
+ * root layout, so the browser runs it while parsing the page, before the framework and app
+ * chunks are evaluated. next/script's beforeInteractive strategy isn't used: under the App
+ * Router it only runs once those chunks have loaded.
+ */
+export function EarlyLogsScript({ maxEntries }: EarlyLogsScriptOptions = {}) {
+  return (
+    <script
+      id="screenlog-early-logs"
+      dangerouslySetInnerHTML={{ __html: createEarlyLogsScript({ maxEntries }) }}
+    />
+  );
+}
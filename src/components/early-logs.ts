@@ -1,105 +1,105 @@
-// Create a global variable to store early logs
-const earlyLogs: Array<{
-  type: 'log' | 'warn' | 'error' | 'info';
+import { captureGlobalErrors, describeCapturedError } from './error-capture';
+import { CapturedError, logStore } from './log-store';
+
+// Maximum number of early logs kept; the oldest are dropped first
+const MAX_EARLY_LOGS = 500;
+
+export type EarlyLog = {
+  type: 'log' | 'debug' | 'info' | 'warn' | 'error';
   args: any[];
   timestamp: number;
-}> = [];
+  // Set for uncaught errors, unhandled rejections and failed resource loads
+  error?: CapturedError;
+};
+
+// Create a global variable to store early logs
+const earlyLogs: EarlyLog[] = [];
+
+// Set once a ScreenLogger has taken over; from then on it captures everything itself
+let handedOff = false;
 
 // Add TypeScript declaration for early logs
 declare global {
   interface Window {
-    __earlyLogs?: Array<{
-      type: 'log' | 'warn' | 'error' | 'info';
-      args: any[];
-      timestamp: number;
-    }>;
+    __earlyLogs?: EarlyLog[];
+    // Stops early capture and returns the buffered logs; installed by this module
+    // or, when it ran first, by the inline bootstrap in early-logs-script.tsx
+    __earlyLogsHandOff?: () => EarlyLog[];
   }
 }
 
-// Only do this if we're in the browser
-if (typeof window !== 'undefined') {
+// Only do this if we're in the browser, and the inline bootstrap hasn't already started capturing
+if (typeof window !== 'undefined' && !window.__earlyLogsHandOff) {
   // Initialize the global early logs array
   window.__earlyLogs = earlyLogs;
-  
-  // Capture console methods
-  const originalConsole = {
-    log: console.log,
-    warn: console.warn,
-    error: console.error,
-    info: console.info
-  };
 
-  // Override console methods
-  console.log = function (...args) {
-    earlyLogs.push({
-      type: 'log',
-      args,
-      timestamp: Date.now()
-    });
-    return originalConsole.log.apply(console, args);
-  };
-
-  console.warn = function (...args) {
-    earlyLogs.push({
-      type: 'warn',
-      args,
-      timestamp: Date.now()
-    });
-    return originalConsole.warn.apply(console, args);
+  // Add a log to the buffer, dropping the oldest once it is full
+  const pushEarlyLog = (log: EarlyLog) => {
+    if (handedOff) return;
+    earlyLogs.push(log);
+    if (earlyLogs.length > MAX_EARLY_LOGS) {
+      earlyLogs.splice(0, earlyLogs.length - MAX_EARLY_LOGS);
+    }
   };
 
-  console.error = function (...args) {
-    earlyLogs.push({
+  // Keep crashes that happen before the logger mounts (e.g. during hydration)
+  const stopErrorCapture = captureGlobalErrors(error => {
+    pushEarlyLog({
       type: 'error',
-      args,
-      timestamp: Date.now()
+      args: describeCapturedError(error),
+      timestamp: Date.now(),
+      error
     });
-    return originalConsole.error.apply(console, args);
-  };
+  });
 
-  console.info = function (...args) {
-    earlyLogs.push({
-      type: 'info',
-      args,
-      timestamp: Date.now()
-    });
-    return originalConsole.info.apply(console, args);
+  // Override console methods
+  const methods = ['log', 'debug', 'info', 'warn', 'error'] as const;
+  const originalConsole = { ...console };
+  const patchedConsole: Partial<Console> = {};
+
+  methods.forEach(method => {
+    patchedConsole[method] = function (...args: any[]) {
+      pushEarlyLog({
+        type: method,
+        args,
+        timestamp: Date.now()
+      });
+      return originalConsole[method].apply(console, args);
+    };
+    console[method] = patchedConsole[method];
+  });
+
+  window.__earlyLogsHandOff = () => {
+    if (!handedOff) {
+      handedOff = true;
+      stopErrorCapture();
+      // Methods patched again since (e.g. by ScreenLogger) are left alone; ours just pass through
+      methods.forEach(method => {
+        if (console[method] === patchedConsole[method]) console[method] = originalConsole[method];
+      });
+    }
+    return earlyLogs.splice(0);
   };
 }
 
-// Function to replay logs to the screen logger
+// Function to replay logs to the screen logger. Entries go straight into the log store
+// with their original timestamps and a pre-mount flag, so the panel can show them as
+// their own section and they are not echoed to the browser console a second time.
 export function replayLogsToScreenLogger(maxEntries = 200) {
-  if (!window.screenLog || earlyLogs.length === 0) return;
-
-  // Add a separator (not captured in earlyLogs, and not timestamped)
-  if (window.screenLog && typeof window.screenLog.log === 'function') {
-    window.screenLog.log("---------- EARLY LOGS ----------");
-  }
+  // Take over from whichever early capture is running; later calls get nothing
+  const earlyLogsToReplay = window.__earlyLogsHandOff?.() ?? [];
 
   // Process logs for display - limit to maxEntries, taking the most recent logs
-  const logsToReplay = earlyLogs.slice(-maxEntries).filter(log => {
-    // Filter out any separator lines before replaying
-    return !(
-      typeof log.args[0] === "string" &&
-      (log.args[0].includes("EARLY LOGS") || log.args[0].includes("END EARLY LOGS"))
-    );
-  });
+  const logsToReplay = earlyLogsToReplay.slice(-maxEntries);
 
-  // Re-log each entry (do not log the separator as a log entry)
   for (const log of logsToReplay) {
-    if (log.type === 'warn') {
-      window.screenLog.warn(...log.args);
-    } else if (log.type === 'error') {
-      window.screenLog.error(...log.args);
-    } else if (log.type === 'info') {
-      window.screenLog.info(...log.args);
-    } else {
-      window.screenLog.log(...log.args);
-    }
-  }
-
-  // Add end separator (not timestamped)
-  if (window.screenLog && typeof window.screenLog.log === 'function') {
-    window.screenLog.log("---------- END EARLY LOGS ----------");
+    logStore.add({
+      level: log.type,
+      args: log.args,
+      source: log.error ? 'uncaught' : 'early',
+      timestamp: log.timestamp,
+      error: log.error,
+      preMount: true
+    });
   }
-} 
+}
@@ -0,0 +1,78 @@
+// Global error capture shared by ScreenLogger and the early-log buffer.
+// Listens for errors that never go through console.error: uncaught exceptions,
+// unhandled promise rejections and failed resource loads (<img>, <script>, <link>...).
+
+import type { CapturedError } from "./log-store";
+
+// Turn a captured error into the arguments shown in the log panel
+export function describeCapturedError(error: CapturedError): any[] {
+  switch (error.kind) {
+    case "unhandledrejection":
+      return [`Uncaught (in promise) ${error.message}`];
+    case "resource":
+      return [`Failed to load resource: ${error.message}`];
+    default:
+      return [`Uncaught ${error.message}`];
+  }
+}
+
+function fromErrorEvent(event: ErrorEvent): CapturedError {
+  return {
+    kind: "error",
+    message: event.error instanceof Error ? String(event.error) : event.message,
+    stack: event.error instanceof Error ? event.error.stack : undefined,
+    url: event.filename || undefined,
+    line: event.lineno || undefined,
+    column: event.colno || undefined,
+  };
+}
+
+// Resource errors don't bubble, so they only reach a capture-phase listener on window
+function fromResourceEvent(event: Event): CapturedError {
+  const target = event.target as HTMLElement & { src?: string; href?: string };
+  const url = target.src || target.href || undefined;
+  return {
+    kind: "resource",
+    message: `<${target.tagName.toLowerCase()}> ${url ?? ""}`.trim(),
+    url,
+  };
+}
+
+function fromRejectionEvent(event: PromiseRejectionEvent): CapturedError {
+  const { reason } = event;
+  if (reason instanceof Error) {
+    return { kind: "unhandledrejection", message: String(reason), stack: reason.stack };
+  }
+  let message: string;
+  try {
+    message = typeof reason === "string" ? reason : JSON.stringify(reason);
+  } catch (e) {
+    message = String(reason);
+  }
+  return { kind: "unhandledrejection", message };
+}
+
+/**
+ * Start listening for uncaught errors, unhandled rejections and resource load failures.
+ * Returns a function that removes the listeners.
+ */
+export function captureGlobalErrors(onError: (error: CapturedError) => void): () => void {
+  const handleError = (event: Event) => {
+    if (event instanceof ErrorEvent) {
+      onError(fromErrorEvent(event));
+    } else if (event.target && event.target !== window) {
+      onError(fromResourceEvent(event));
+    }
+  };
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    onError(fromRejectionEvent(event));
+  };
+
+  window.addEventListener("error", handleError, true);
+  window.addEventListener("unhandledrejection", handleRejection);
+
+  return () => {
+    window.removeEventListener("error", handleError, true);
+    window.removeEventListener("unhandledrejection", handleRejection);
+  };
+}
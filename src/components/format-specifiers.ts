@@ -0,0 +1,207 @@
+// printf-style format specifiers in console messages, applied the way browsers apply them:
+//
+//   console.log("%s took %dms", name, ms)
+//   console.log("%cHello", "color: red; font-weight: bold")
+//
+// %s string, %d/%i integer, %f number, %o/%O object, %j JSON, %c CSS for the text after it,
+// %% a literal percent sign. Arguments the message doesn't consume are shown after it as usual.
+
+/** Piece of a formatted message: text, or an argument shown as itself (%o, %O, %s objects) */
+export type FormatSegment =
+  { text: string; css?: string } | { value: unknown; index: number; css?: string };
+
+export interface FormattedMessage {
+  segments: FormatSegment[];
+  /** Index of the first argument the message didn't consume */
+  restStart: number;
+}
+
+// Properties %c may set. Anything that could load a resource, move the text out of its row or
+// cover the page is left out, and the box properties below only get small lengths.
+const ALLOWED_CSS_PROPERTIES = new Set([
+  "color",
+  "background",
+  "background-color",
+  "font",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "text-decoration",
+  "text-shadow",
+  "text-transform",
+  "letter-spacing",
+  "word-spacing",
+  "white-space",
+  "padding",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "margin",
+  "margin-top",
+  "margin-right",
+  "margin-bottom",
+  "margin-left",
+  "border",
+  "border-top",
+  "border-right",
+  "border-bottom",
+  "border-left",
+  "border-color",
+  "border-style",
+  "border-width",
+  "border-radius",
+]);
+
+// Values that could fetch something (url(), image-set() ...) or escape the declaration
+const UNSAFE_CSS_VALUE =
+  /(url|image|image-set|cross-fade|element|expression)\s*\(|javascript:|@import|[<>\\{}]/i;
+
+// Padding, margins and borders of inline text don't make its line taller, so large ones reach
+// over the rows around it and negative margins move the text into them
+const BOX_PROPERTY = /^(padding|margin|border)(-(top|right|bottom|left))?$|^border-width$/;
+const MAX_BOX_LENGTH_PX = 8;
+const PX_PER_EM = 16;
+
+// Lengths in a box property's value, e.g. "2px 4px" or "1px solid red": every word that starts
+// with a number, with the rest of the word as its unit
+const LENGTH = /(^|\s)([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)(\S*)(?=\s|$)/gi;
+const PX_PER_UNIT = new Map([
+  ["", 1],
+  ["px", 1],
+  ["em", PX_PER_EM],
+  ["rem", PX_PER_EM],
+]);
+
+// A box property's value with its lengths clamped to MAX_BOX_LENGTH_PX, or undefined when it
+// holds a length that can't be checked (a unit relative to the viewport, calc() ...)
+function clampBoxLengths(value: string): string | undefined {
+  let valid = true;
+  // Colour functions are kept as they are; any other function could compute a length
+  const clamped = value
+    .split(/(\b(?:rgba?|hsla?)\([^()]*\))/i)
+    .map((part, i) => {
+      if (i % 2 === 1) return part;
+      if (part.includes("(")) valid = false;
+      return part.replace(LENGTH, (_, space: string, number: string, unit: string) => {
+        const scale = PX_PER_UNIT.get(unit.toLowerCase());
+        if (scale === undefined) valid = false;
+        const px = Math.min(Math.max(Number(number) * (scale ?? 1), 0), MAX_BOX_LENGTH_PX);
+        return `${space}${px}${unit && "px"}`;
+      });
+    })
+    .join("");
+  return valid ? clamped : undefined;
+}
+
+/** Keep the declarations of a %c style whose property is allowed and whose value is safe */
+export function sanitizeConsoleCss(css: string): string {
+  return css
+    .split(";")
+    .map(declaration => {
+      const colon = declaration.indexOf(":");
+      if (colon === -1) return "";
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      let value: string | undefined = declaration.slice(colon + 1).trim();
+      if (!ALLOWED_CSS_PROPERTIES.has(property) || !value || UNSAFE_CSS_VALUE.test(value)) {
+        return "";
+      }
+      if (BOX_PROPERTY.test(property)) value = clampBoxLengths(value);
+      return value ? `${property}:${value};` : "";
+    })
+    .join("");
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "symbol") return NaN;
+  try {
+    return Number(value);
+  } catch (e) {
+    // Objects whose valueOf throws
+    return NaN;
+  }
+}
+
+function toJson(value: unknown) {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (e) {
+    return "[Circular]";
+  }
+}
+
+const isObject = (value: unknown) =>
+  (typeof value === "object" && value !== null) || typeof value === "function";
+
+/**
+ * Split a console message into text and argument segments by the format specifiers in its
+ * first argument. Messages without one come back as no segments with every argument left.
+ */
+export function applyFormatSpecifiers(args: readonly any[]): FormattedMessage {
+  const [format] = args;
+  if (typeof format !== "string" || !format.includes("%")) return { segments: [], restStart: 0 };
+
+  const segments: FormatSegment[] = [];
+  let css: string | undefined;
+  let text = "";
+  let next = 1;
+  let offset = 0;
+
+  const endText = () => {
+    if (text) segments.push({ text, css });
+    text = "";
+  };
+
+  for (const match of format.matchAll(/%([sdifoOjc%])/g)) {
+    text += format.slice(offset, match.index);
+    offset = match.index! + match[0].length;
+    const specifier = match[1];
+
+    if (specifier === "%") {
+      text += "%";
+      continue;
+    }
+    // Specifiers without an argument are printed as they are
+    if (next >= args.length) {
+      text += match[0];
+      continue;
+    }
+
+    const index = next++;
+    const arg = args[index];
+    switch (specifier) {
+      case "s":
+        if (isObject(arg)) {
+          endText();
+          segments.push({ value: arg, index, css });
+        } else {
+          text += typeof arg === "bigint" ? `${arg}n` : String(arg);
+        }
+        break;
+      case "d":
+      case "i":
+        text += typeof arg === "bigint" ? `${arg}n` : String(Math.trunc(toNumber(arg)));
+        break;
+      case "f":
+        text += String(toNumber(arg));
+        break;
+      case "j":
+        text += toJson(arg);
+        break;
+      case "o":
+      case "O":
+        endText();
+        segments.push({ value: arg, index, css });
+        break;
+      case "c":
+        endText();
+        css = sanitizeConsoleCss(String(arg)) || undefined;
+        break;
+    }
+  }
+  text += format.slice(offset);
+  endText();
+
+  return { segments, restStart: next };
+}
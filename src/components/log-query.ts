@@ -0,0 +1,179 @@
+// Search query language shared by the logger search boxes.
+//
+//   timeout                plain text, case-insensitive
+//   "request failed"       quoted phrase
+//   /fetch(ed)? \d+/i      regular expression; /api/items without valid flags is plain text
+//   level:error            level, or several: level:warn,error
+//   module:PatchSelectMenu entries whose first argument starts with [PatchSelectMenu]
+//   worker:audio           entries forwarded from the Web Worker registered as "audio"
+//   after:10:30 before:5m  time bounds: HH:MM[:SS] today, a date, or a duration ago (30s, 5m, 2h, 1d)
+//                          counted back from the time the entries are filtered
+//   -heartbeat             any term prefixed with "-" excludes matches instead
+//
+// All terms must match. Unknown "field:value" pairs are searched as plain text, so URLs still work.
+
+import { LOG_LEVELS, LogEntry, LogLevel, LogQuery, formatEntrySearchText } from "./log-store";
+
+/**
+ * A parsed query, with patterns (g flag set) for highlighting the text it searches for,
+ * or the reason it couldn't be parsed
+ */
+export type SearchQueryResult =
+  | { query: LogQuery; highlights: RegExp[]; error?: undefined }
+  | { query?: undefined; highlights?: undefined; error: string };
+
+type Term = (entry: LogEntry, text: string) => boolean;
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+// Module name from a "[Module] action ..." message, as highlighted by the v1 formatter
+export function getEntryModule(entry: LogEntry): string | undefined {
+  const [first] = entry.args;
+  if (typeof first !== "string") return undefined;
+  return /^\[([^\]]+)\]/.exec(first)?.[1];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A fixed time, or a duration before whenever the entries are filtered
+type TimeBound = { at: number } | { ago: number };
+
+function parseTimeBound(value: string, now: number): TimeBound | undefined {
+  const duration = /^(\d+)([smhd])$/.exec(value);
+  if (duration) return { ago: Number(duration[1]) * DURATION_UNITS[duration[2]] };
+
+  const time = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+  if (time) {
+    const date = new Date(now);
+    date.setHours(Number(time[1]), Number(time[2]), Number(time[3] ?? 0), 0);
+    return { at: date.getTime() };
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : { at: date };
+}
+
+// End of the regular expression starting at `start`, as [closing slash, flags], when the
+// input reads as one: a closing slash followed by valid flags and then whitespace or the end.
+// Anything else, such as a URL path like /api/items, is plain text.
+function findRegExpEnd(input: string, start: number): [number, string] | undefined {
+  let end = start + 1;
+  while (end < input.length && input[end] !== "/") {
+    end += input[end] === "\\" ? 2 : 1;
+  }
+  if (end >= input.length) return undefined;
+  const flags = /^[dgimsuvy]*/.exec(input.slice(end + 1))![0];
+  const next = input[end + 1 + flags.length];
+  return next === undefined || /\s/.test(next) ? [end, flags] : undefined;
+}
+
+function parseLevels(value: string): LogLevel[] | undefined {
+  const levels = value.toLowerCase().split(",");
+  return levels.every(level => LOG_LEVELS.includes(level as LogLevel))
+    ? (levels as LogLevel[])
+    : undefined;
+}
+
+/**
+ * Parse a search box query into a LogQuery. Returns an error message instead when the
+ * query can't be parsed (unterminated quote, invalid regex, unknown level, bad time).
+ */
+export function parseSearchQuery(input: string, now = Date.now()): SearchQueryResult {
+  const query: LogQuery = {};
+  const terms: Term[] = [];
+  const highlights: RegExp[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    // A leading "-" negates the term, unless it stands on its own
+    let negated = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    const fieldMatch = /^(level|module|worker|after|before):/i.exec(input.slice(i));
+    const field = fieldMatch?.[1].toLowerCase();
+    if (fieldMatch) i += fieldMatch[0].length;
+
+    let value: string;
+    let regex: RegExp | undefined;
+    const regexEnd = !field && input[i] === "/" ? findRegExpEnd(input, i) : undefined;
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) return { error: "Missing closing quote" };
+      value = input.slice(i + 1, end);
+      i = end + 1;
+    } else if (regexEnd) {
+      const [end, flags] = regexEnd;
+      try {
+        // Global and sticky flags would make test() depend on the previous match
+        regex = new RegExp(input.slice(i + 1, end), flags.replace(/[gy]/g, ""));
+      } catch (e) {
+        return { error: e instanceof Error ? e.message : "Invalid regular expression" };
+      }
+      value = input.slice(i, end + 1 + flags.length);
+      i = end + 1 + flags.length;
+    } else {
+      const end = input.slice(i).search(/\s/);
+      value = end === -1 ? input.slice(i) : input.slice(i, i + end);
+      i += value.length;
+    }
+
+    if (field && value === "") return { error: `Missing value after ${field}:` };
+
+    let term: Term;
+    if (field === "after" || field === "before") {
+      if (negated) return { error: `${field}: can't be negated` };
+      const bound = parseTimeBound(value, now);
+      if (bound === undefined) return { error: `Invalid time for ${field}: "${value}"` };
+      if ("at" in bound) {
+        if (field === "after") query.since = bound.at;
+        else query.until = bound.at;
+        continue;
+      }
+      // Measured from the time of filtering, so it keeps moving while the query stays
+      const { ago } = bound;
+      term =
+        field === "after"
+          ? entry => entry.timestamp >= Date.now() - ago
+          : entry => entry.timestamp <= Date.now() - ago;
+    } else if (field === "level") {
+      const levels = parseLevels(value);
+      if (!levels) return { error: `Unknown level "${value}" (use ${LOG_LEVELS.join(", ")})` };
+      term = entry => levels.includes(entry.level);
+    } else if (field === "module") {
+      const module = value.toLowerCase();
+      term = entry => getEntryModule(entry)?.toLowerCase() === module;
+    } else if (field === "worker") {
+      const worker = value.toLowerCase();
+      term = entry => entry.worker?.toLowerCase() === worker;
+    } else if (regex) {
+      const pattern = regex;
+      term = (entry, text) => pattern.test(text);
+      if (!negated) highlights.push(new RegExp(pattern.source, pattern.flags + "g"));
+    } else {
+      const needle = value.toLowerCase();
+      term = (entry, text) => text.toLowerCase().includes(needle);
+      if (!negated && value) highlights.push(new RegExp(escapeRegExp(value), "gi"));
+    }
+
+    terms.push(negated ? (entry, text) => !term(entry, text) : term);
+  }
+
+  if (terms.length > 0) {
+    query.predicate = entry => {
+      const text = formatEntrySearchText(entry);
+      return terms.every(term => term(entry, text));
+    };
+  }
+  return { query, highlights };
+}
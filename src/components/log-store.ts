@@ -0,0 +1,537 @@
+// Framework-agnostic log store shared by every ScreenLogger variant.
+// Captured entries live here rather than in the DOM or in component state, so
+// filtering, counting and exporting always see everything that was captured,
+// not just what happens to be rendered.
+
+import { stripAnsi } from "./ansi";
+import { applyFormatSpecifiers } from "./format-specifiers";
+
+export type LogLevel = "log" | "debug" | "info" | "warn" | "error";
+
+/** All levels, from least to most severe */
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "log", "info", "warn", "error"];
+
+/** Levels at or above the given one, e.g. ["warn", "error"] for "warn" */
+export function levelsFrom(minLevel: LogLevel): LogLevel[] {
+  return LOG_LEVELS.slice(LOG_LEVELS.indexOf(minLevel));
+}
+
+/** Console methods that produce entries with their own rendering (tables, groups, traces...) */
+export type ConsoleMethod =
+  | "log"
+  | "debug"
+  | "info"
+  | "warn"
+  | "error"
+  | "trace"
+  | "table"
+  | "group"
+  | "groupCollapsed"
+  | "time"
+  | "timeLog"
+  | "timeEnd"
+  | "count"
+  | "countReset"
+  | "assert"
+  | "dir";
+
+/**
+ * Where an entry came from: a patched console method, window.screenLog, the early-log buffer,
+ * a global error listener, the fetch/XMLHttpRequest wrappers or a registered Web Worker
+ */
+export type LogSource = "console" | "screenLog" | "early" | "uncaught" | "network" | "worker";
+
+/** A finished fetch or XMLHttpRequest, as recorded by the network capture */
+export interface NetworkRequest {
+  method: string;
+  url: string;
+  /** Missing when the request failed before a response arrived */
+  status?: number;
+  statusText?: string;
+  /** Milliseconds from sending the request until the response body had arrived */
+  duration: number;
+  requestSize?: number;
+  responseSize?: number;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  /** Truncated body previews */
+  requestBody?: string;
+  responseBody?: string;
+  /** Network-level failure message (CORS, offline, aborted...) */
+  error?: string;
+}
+
+/** An error that reached the window without going through console.error */
+export interface CapturedError {
+  kind: "error" | "unhandledrejection" | "resource";
+  message: string;
+  stack?: string;
+  url?: string;
+  line?: number;
+  column?: number;
+}
+
+/** Where in the source an entry was logged from, as found in a stack trace */
+export interface CallSite {
+  /** Script URL, or a project-relative path once resolved through the dev server */
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** Entries logged during one throttle window, coalesced into a single summary entry */
+export interface ThrottleSummary {
+  /** Length of the throttle window in milliseconds */
+  window: number;
+  /** Every entry logged during the window, oldest first */
+  entries: NewLogEntry[];
+  levelCounts: Record<LogLevel, number>;
+}
+
+export interface LogEntry {
+  id: number;
+  level: LogLevel;
+  args: any[];
+  timestamp: number;
+  source: LogSource;
+  /** Rough in-memory footprint used for the byte budget */
+  size: number;
+  /** Console method that produced the entry, when it isn't just the level */
+  method?: ConsoleMethod;
+  /** Ids of the console.group entries this entry is nested in, outermost first */
+  groupPath?: number[];
+  /** Stack trace for console.trace */
+  stack?: string;
+  /** Details of an uncaught error, unhandled rejection or failed resource load */
+  error?: CapturedError;
+  /** Details of a captured fetch or XMLHttpRequest */
+  network?: NetworkRequest;
+  /** Captured before any ScreenLogger mounted and replayed from the early-log buffer */
+  preMount?: boolean;
+  /** Where the console or screenLog call was made, when call-site capture is on */
+  callSite?: CallSite;
+  /** Label of the Web Worker that logged the entry */
+  worker?: string;
+  /** Name of the window.screenLog.channel() logger that produced the entry */
+  channel?: string;
+  /** Set on the summary entry that aggregating throttling adds in place of a burst */
+  summary?: ThrottleSummary;
+  /** How many times the entry was logged in a row, once consecutive repeats are collapsed */
+  repeatCount?: number;
+  /** When the latest repeat was logged; timestamp stays the first one */
+  lastTimestamp?: number;
+  /**
+   * The logged arguments themselves when args holds snapshots of them, for reading their
+   * current value. The copied ones are held through WeakRefs (see snapshotArgs), so they
+   * aren't counted in size.
+   */
+  liveArgs?: any[];
+}
+
+export type NewLogEntry = Omit<LogEntry, "id" | "size" | "timestamp"> & { timestamp?: number };
+
+export interface LogQuery {
+  levels?: LogLevel[];
+  sources?: LogSource[];
+  /** Worker labels, for entries forwarded from Web Workers */
+  workers?: string[];
+  /** Channel names, for entries logged through window.screenLog.channel() */
+  channels?: string[];
+  /** Case-insensitive substring match against the entry's text and worker label */
+  text?: string;
+  since?: number;
+  until?: number;
+  /** Any further condition, e.g. a query parsed by parseSearchQuery() */
+  predicate?: (entry: LogEntry) => boolean;
+}
+
+export type LogStoreEvent =
+  | { type: "add"; entry: LogEntry }
+  /** The newest entry was logged again and replaced by a copy with the new repeat count */
+  | { type: "repeat"; entry: LogEntry }
+  | { type: "evict"; entries: LogEntry[] }
+  | { type: "clear" };
+
+/**
+ * How consecutive repeats are stored: as separate entries, collapsed into one entry when the
+ * level and arguments are identical, or also when the messages differ only in their numbers
+ */
+export type RepeatCollapsing = "off" | "identical" | "similar";
+
+export type LogStoreListener = (event: LogStoreEvent) => void;
+
+export interface LogStoreOptions {
+  /** Maximum number of entries kept before the oldest are evicted */
+  maxEntries?: number;
+  /** Maximum estimated size in bytes of all entries before the oldest are evicted */
+  maxBytes?: number;
+  /** Collapse consecutive repeats of the same message into one entry; "off" by default */
+  collapseRepeats?: RepeatCollapsing;
+}
+
+export const DEFAULT_MAX_ENTRIES = 5000;
+export const DEFAULT_MAX_BYTES = 5 * 1024 * 1024; // 5 MB
+
+export interface LogStore {
+  add: (entry: NewLogEntry) => LogEntry;
+  /**
+   * Update the memory budget and repeat collapsing; entries over the new budget are
+   * evicted immediately
+   */
+  configure: (options: LogStoreOptions) => void;
+  /** Number of entries evicted since the store was last cleared */
+  getEvictedCount: () => number;
+  /** Number of kept entries per channel, in the order the channels first appeared */
+  getChannelCounts: () => Record<string, number>;
+  /** Number of kept entries per level, counting the entries a throttle summary stands for */
+  getLevelCounts: () => Record<LogLevel, number>;
+  /** Returns the current entries; the array is replaced (never mutated) when the store changes */
+  getEntries: () => readonly LogEntry[];
+  query: (query?: LogQuery) => LogEntry[];
+  count: (query?: LogQuery) => number;
+  clear: () => void;
+  subscribe: (listener: LogStoreListener) => () => void;
+}
+
+// Convert a single argument to plain text for searching and exporting
+export function formatArgAsText(arg: any): string {
+  if (typeof arg === "string") return stripAnsi(arg);
+  if (typeof arg === "object" && arg !== null) {
+    try {
+      return JSON.stringify(arg);
+    } catch (e) {
+      return String(arg);
+    }
+  }
+  return String(arg);
+}
+
+// The arguments as they are displayed, with format specifiers in the first one applied
+export function formatArgsAsText(args: any[]): string {
+  const { segments, restStart } = applyFormatSpecifiers(args);
+  const message = segments
+    .map(segment => ("text" in segment ? stripAnsi(segment.text) : formatArgAsText(segment.value)))
+    .join("");
+  const rest = args.slice(restStart).map(formatArgAsText);
+  return (segments.length > 0 ? [message, ...rest] : rest).join(" ");
+}
+
+// "file.js:12:5" for a captured error, or undefined when the browser gave no URL
+export function formatErrorLocation(error: CapturedError): string | undefined {
+  if (!error.url) return undefined;
+  return [error.url, error.line, error.column].filter(part => part !== undefined).join(":");
+}
+
+// Single line used when copying logs to the clipboard
+export function formatEntryAsText(entry: LogEntry): string {
+  const time = new Date(entry.timestamp).toLocaleTimeString();
+  const indent = "  ".repeat(entry.groupPath?.length ?? 0);
+  const location = entry.error && formatErrorLocation(entry.error);
+  const tags = [entry.worker, entry.channel].map(tag => (tag ? `[${tag}] ` : "")).join("");
+  const text = formatArgsAsText(entry.args) + (location ? ` (${location})` : "");
+  const repeats = entry.repeatCount ? ` (×${entry.repeatCount})` : "";
+  const line = `${time} [${entry.level.toUpperCase()}] ${tags}${indent}${text}${repeats}`;
+  if (!entry.summary) return line;
+  // Summaries copy every entry they stand for
+  const summarized = entry.summary.entries.map(
+    item => `\n${indent}  [${item.level.toUpperCase()}] ${formatArgsAsText(item.args)}`
+  );
+  return `${line} (${entry.summary.entries.length} entries in ${entry.summary.window}ms)${summarized.join("")}`;
+}
+
+// Estimate how much memory a value holds. Objects are only walked a few levels deep
+// so logging a huge structure doesn't cost more than storing it.
+export function estimateSize(value: any, depth = 0, seen = new Set<object>()): number {
+  switch (typeof value) {
+    case "string":
+      return value.length * 2;
+    case "number":
+    case "bigint":
+      return 8;
+    case "boolean":
+      return 4;
+    case "object":
+      break;
+    default:
+      return 16;
+  }
+  if (value === null) return 4;
+  if (seen.has(value) || depth > 3) return 16;
+  seen.add(value);
+
+  let size = 32;
+  try {
+    for (const key of Object.keys(value).slice(0, 100)) {
+      size += key.length * 2 + estimateSize(value[key], depth + 1, seen);
+    }
+  } catch (e) {
+    // Exotic objects (proxies, cross-origin windows) may throw on access
+  }
+  return size;
+}
+
+// Text that searches run against: the arguments, prefixed with the worker label if any.
+// A throttle summary is searched through every entry it stands for.
+export function formatEntrySearchText(entry: LogEntry): string {
+  const args = entry.summary ? entry.summary.entries.flatMap(item => item.args) : entry.args;
+  const text = formatArgsAsText(args);
+  return entry.worker ? `${entry.worker} ${text}` : text;
+}
+
+export function matchesQuery(entry: LogEntry, query: LogQuery = {}): boolean {
+  if (query.levels && !query.levels.includes(entry.level)) return false;
+  if (query.sources && !query.sources.includes(entry.source)) return false;
+  if (query.workers && !(entry.worker && query.workers.includes(entry.worker))) return false;
+  if (query.channels && !(entry.channel && query.channels.includes(entry.channel))) return false;
+  if (query.since !== undefined && entry.timestamp < query.since) return false;
+  if (query.until !== undefined && entry.timestamp > query.until) return false;
+  if (query.text) {
+    const text = formatEntrySearchText(entry).toLowerCase();
+    if (!text.includes(query.text.toLowerCase())) return false;
+  }
+  if (query.predicate && !query.predicate(entry)) return false;
+  return true;
+}
+
+const emptyLevelCounts = (): Record<LogLevel, number> => ({
+  debug: 0,
+  log: 0,
+  info: 0,
+  warn: 0,
+  error: 0,
+});
+
+/**
+ * Coalesce the entries logged during a throttle window into one summary entry. It takes the
+ * most severe level of the burst, so level filters never hide an error inside it, and shows
+ * the latest message.
+ */
+export function summarizeEntries(entries: NewLogEntry[], window: number): NewLogEntry {
+  const levelCounts = emptyLevelCounts();
+  entries.forEach(entry => levelCounts[entry.level]++);
+  const level = [...LOG_LEVELS].reverse().find(level => levelCounts[level] > 0) ?? "log";
+  const latest = entries[entries.length - 1];
+  const channels = new Set(entries.map(entry => entry.channel));
+
+  return {
+    level,
+    args: latest.args,
+    source: latest.source,
+    timestamp: entries[0].timestamp,
+    worker: latest.worker,
+    channel: channels.size === 1 ? latest.channel : undefined,
+    groupPath: latest.groupPath,
+    summary: { window, entries, levelCounts },
+  };
+}
+
+// What has to match for an entry to count as a repeat of the previous one, or undefined for
+// entries that are never collapsed (groups, tables, traces, requests, throttle summaries)
+function getRepeatKey(entry: NewLogEntry, mode: RepeatCollapsing): string | undefined {
+  if (mode === "off" || entry.method || entry.stack || entry.network || entry.summary) {
+    return undefined;
+  }
+  let text = formatArgsAsText(entry.args);
+  if (mode === "similar") text = text.replace(/-?\d+(?:\.\d+)?/g, "#");
+  return [
+    entry.level,
+    entry.source,
+    entry.worker ?? "",
+    entry.channel ?? "",
+    entry.groupPath?.join(" ") ?? "",
+    text,
+  ].join("\u0000");
+}
+
+// Rough footprint of an entry, including the entries a throttle summary stands for
+export function estimateEntrySize(entry: NewLogEntry): number {
+  return (
+    entry.args.reduce((total: number, arg) => total + estimateSize(arg), 0) +
+    (entry.stack?.length ?? 0) * 2 +
+    (entry.error ? estimateSize(entry.error) : 0) +
+    (entry.network ? estimateSize(entry.network) : 0) +
+    (entry.summary?.entries.reduce((total, item) => total + estimateEntrySize(item), 0) ?? 0)
+  );
+}
+
+export function createLogStore(options: LogStoreOptions = {}): LogStore {
+  let entries: LogEntry[] = [];
+  // Copy handed out by getEntries(), rebuilt lazily after each change
+  let snapshot: readonly LogEntry[] | null = null;
+  let nextId = 1;
+  let totalBytes = 0;
+  let evictedCount = 0;
+  let channelCounts: Record<string, number> = {};
+  let levelCounts = emptyLevelCounts();
+  let maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  let maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  let collapseRepeats = options.collapseRepeats ?? "off";
+  // Repeat key of the newest entry, while it can still absorb repeats
+  let lastRepeatKey: string | undefined;
+  const listeners = new Set<LogStoreListener>();
+
+  function emit(event: LogStoreEvent) {
+    listeners.forEach(listener => listener(event));
+  }
+
+  // Keep the per-level and per-channel counts in step with the entries
+  function updateCounts(entry: LogEntry, delta: number) {
+    // A throttle summary counts as the entries it stands for
+    if (entry.summary) {
+      LOG_LEVELS.forEach(
+        level => (levelCounts[level] += entry.summary!.levelCounts[level] * delta)
+      );
+    } else {
+      levelCounts[entry.level] += delta;
+    }
+    if (!entry.channel) return;
+    const channelCount = (channelCounts[entry.channel] ?? 0) + delta;
+    if (channelCount > 0) channelCounts[entry.channel] = channelCount;
+    else delete channelCounts[entry.channel];
+  }
+
+  // Drop the oldest entries until the store is back within budget.
+  // The newest entry is always kept, even if it alone exceeds maxBytes.
+  function evictOverBudget() {
+    let removeCount = 0;
+    let removedBytes = 0;
+    while (
+      entries.length - removeCount > 1 &&
+      (entries.length - removeCount > maxEntries || totalBytes - removedBytes > maxBytes)
+    ) {
+      removedBytes += entries[removeCount].size;
+      removeCount++;
+    }
+    if (removeCount === 0) return;
+
+    const evicted = entries.slice(0, removeCount);
+    evicted.forEach(entry => updateCounts(entry, -1));
+    entries = entries.slice(removeCount);
+    totalBytes -= removedBytes;
+    evictedCount += removeCount;
+    snapshot = null;
+    emit({ type: "evict", entries: evicted });
+  }
+
+  function add({ timestamp = Date.now(), ...rest }: NewLogEntry) {
+    const size = estimateEntrySize(rest);
+    const repeatKey = getRepeatKey(rest, collapseRepeats);
+    const last = entries[entries.length - 1];
+
+    if (last && repeatKey !== undefined && repeatKey === lastRepeatKey) {
+      // Replace rather than mutate the newest entry so snapshots stay unchanged. Similar
+      // messages show the latest arguments.
+      const entry: LogEntry = {
+        ...last,
+        args: rest.args,
+        liveArgs: rest.liveArgs,
+        error: rest.error,
+        size,
+        repeatCount: (last.repeatCount ?? 1) + 1,
+        lastTimestamp: timestamp,
+      };
+      entries[entries.length - 1] = entry;
+      totalBytes += size - last.size;
+      snapshot = null;
+      emit({ type: "repeat", entry });
+      evictOverBudget();
+      return entry;
+    }
+
+    const entry: LogEntry = { ...rest, id: nextId++, timestamp, size };
+    entries.push(entry);
+    totalBytes += size;
+    lastRepeatKey = repeatKey;
+    updateCounts(entry, 1);
+    snapshot = null;
+    emit({ type: "add", entry });
+    evictOverBudget();
+    return entry;
+  }
+
+  function configure(next: LogStoreOptions) {
+    maxEntries = next.maxEntries ?? maxEntries;
+    maxBytes = next.maxBytes ?? maxBytes;
+    if (next.collapseRepeats && next.collapseRepeats !== collapseRepeats) {
+      collapseRepeats = next.collapseRepeats;
+      // Entries stored under the old setting don't absorb repeats under the new one
+      lastRepeatKey = undefined;
+    }
+    evictOverBudget();
+  }
+
+  function query(q?: LogQuery) {
+    return entries.filter(entry => matchesQuery(entry, q));
+  }
+
+  function count(q?: LogQuery) {
+    return q ? query(q).length : entries.length;
+  }
+
+  function clear() {
+    entries = [];
+    totalBytes = 0;
+    evictedCount = 0;
+    channelCounts = {};
+    levelCounts = emptyLevelCounts();
+    lastRepeatKey = undefined;
+    snapshot = null;
+    emit({ type: "clear" });
+  }
+
+  function subscribe(listener: LogStoreListener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  return {
+    add,
+    configure,
+    getEvictedCount: () => evictedCount,
+    getChannelCounts: () => ({ ...channelCounts }),
+    getLevelCounts: () => ({ ...levelCounts }),
+    getEntries: () => (snapshot ??= entries.slice()),
+    query,
+    count,
+    clear,
+    subscribe,
+  };
+}
+
+// Shared store used by the on-screen loggers and the early-log replay
+export const logStore = createLogStore();
+
+// Shape of window.screenLog. Only the v1 logger implements the full console API,
+// so everything beyond the basic levels is optional.
+export interface ScreenLogApi {
+  log: (...args: any[]) => void;
+  clear: () => void;
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+  error: (...args: any[]) => void;
+  destroy: () => void;
+  debug?: (...args: any[]) => void;
+  trace?: (...args: any[]) => void;
+  table?: (data: any, columns?: string[]) => void;
+  group?: (...label: any[]) => void;
+  groupCollapsed?: (...label: any[]) => void;
+  groupEnd?: () => void;
+  time?: (label?: string) => void;
+  timeLog?: (label?: string, ...data: any[]) => void;
+  timeEnd?: (label?: string) => void;
+  count?: (label?: string) => void;
+  countReset?: (label?: string) => void;
+  assert?: (condition?: boolean, ...data: any[]) => void;
+  dir?: (item?: any) => void;
+  /** Show logs forwarded by forwardWorkerLogs() in a worker; returns a function to stop */
+  registerWorker?: (worker: Worker, label?: string) => () => void;
+  /** Logger whose entries are tagged with the channel and get their own tab in the panel */
+  channel?: (name: string) => ScreenLogChannel;
+}
+
+/** Logger returned by window.screenLog.channel(): the whole console API, in both loggers */
+export type ScreenLogChannel = Required<
+  Omit<ScreenLogApi, "clear" | "destroy" | "registerWorker" | "channel">
+>;
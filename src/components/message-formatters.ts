@@ -0,0 +1,170 @@
+// Formatters that colour the text of log messages in the v1 panel.
+// Each formatter claims the messages it recognises with test() and renders them into the row.
+// Formatters registered with registerFormatter() are tried first, newest first, then the
+// built-in ones for "[Module] action param value" messages and "key: value" lists. Text no
+// formatter claims has its words coloured by what they look like.
+
+export interface MessageFormatter {
+  /** Whether this formatter renders the message */
+  test: (text: string) => boolean;
+  /** Append the formatted message to content, which is added to the row once render returns */
+  render: (content: HTMLElement, text: string) => void;
+}
+
+// A word of a message, coloured by what it looks like
+function formatWord(word: string) {
+  const span = document.createElement("span");
+  span.textContent = word;
+  const number = Number(word);
+  if (!isNaN(number) && String(number) === word) {
+    span.style.color = "#5AAAFA"; // Blue for numbers
+  } else if (/^\[.*\]$/.test(word)) {
+    span.style.color = "#9B8FFF"; // Purple for identifiers in brackets
+    span.style.fontWeight = "bold";
+  } else if (/^[a-zA-Z][a-zA-Z0-9]*$/.test(word)) {
+    span.style.color = "#FFC16C"; // Orange for identifiers
+  } else {
+    span.style.color = "#FC8A58"; // Orange-red for property names and other strings
+  }
+  return span;
+}
+
+/** Colour each word of a message by what it looks like, as done for unclaimed messages */
+export function formatWords(content: HTMLElement, text: string) {
+  text.split(/(\s+)/).forEach(part => {
+    if (part === "") return;
+    content.appendChild(part.trim() === "" ? document.createTextNode(part) : formatWord(part));
+  });
+}
+
+// "key: value, key: value" with property names and values coloured
+function formatKeyValues(content: HTMLElement, text: string) {
+  const parts: { type: "property" | "value" | "separator"; text: string }[] = [];
+  let currentPart = "";
+  let inValue = false;
+
+  for (const char of text) {
+    if (char === ":" && !inValue) {
+      parts.push({ type: "property", text: currentPart.trim() });
+      parts.push({ type: "separator", text: ": " });
+      currentPart = "";
+      inValue = true;
+    } else if (char === "," && inValue) {
+      parts.push({ type: "value", text: currentPart.trim() });
+      parts.push({ type: "separator", text: ", " });
+      currentPart = "";
+      inValue = false;
+    } else {
+      currentPart += char;
+    }
+  }
+  if (currentPart.trim()) {
+    parts.push({ type: inValue ? "value" : "property", text: currentPart.trim() });
+  }
+
+  parts.forEach(part => {
+    if (part.type === "separator") {
+      content.appendChild(document.createTextNode(part.text));
+      return;
+    }
+    const span = document.createElement("span");
+    if (part.type === "property") {
+      span.style.color = "#FC8A58"; // Orange-red for property names
+    } else if (part.text === "null" || part.text === "undefined") {
+      span.style.color = part.text === "null" ? "#82AAFF" : "#A9B7C6";
+    } else if (/^-?\d+(\.\d+)?$/.test(part.text)) {
+      span.style.color = "#5AAAFA"; // Blue for numbers
+    } else {
+      span.style.color = "#FFC16C"; // Orange for other values
+    }
+    span.textContent = part.text;
+    content.appendChild(span);
+  });
+}
+
+// [ComponentName] actionName paramName value
+const MODULE_MESSAGE = /^\[([^\]]+)\]\s+(\S+)(?:\s+(\S+))?(?:\s+(.+))?$/;
+
+const moduleFormatter: MessageFormatter = {
+  test: text => MODULE_MESSAGE.test(text),
+  render: (content, text) => {
+    const [, moduleName, actionName, paramName, restOfMessage] = MODULE_MESSAGE.exec(text)!;
+
+    const moduleSpan = document.createElement("span");
+    moduleSpan.style.color = "#9B8FFF"; // Purple for module
+    moduleSpan.style.fontWeight = "bold";
+    moduleSpan.textContent = `[${moduleName}] `;
+    content.appendChild(moduleSpan);
+
+    const actionSpan = document.createElement("span");
+    actionSpan.style.color = "#FFC16C"; // Orange for action
+    actionSpan.textContent = actionName + " ";
+    content.appendChild(actionSpan);
+
+    if (paramName) {
+      const paramSpan = document.createElement("span");
+      paramSpan.style.color = "#FC8A58"; // Orange-red for param
+      paramSpan.textContent = paramName + " ";
+      content.appendChild(paramSpan);
+    }
+
+    if (restOfMessage) {
+      if (restOfMessage.includes(":")) formatKeyValues(content, restOfMessage);
+      else formatWords(content, restOfMessage);
+    }
+  },
+};
+
+// activePresetId: 3, currentPatchName: Warm Pad
+const KEY_VALUE_LIST = /^[\w$.-]+: [^,]*(?:, *[\w$.-]+: [^,]*)*$/;
+
+const keyValueFormatter: MessageFormatter = {
+  test: text => KEY_VALUE_LIST.test(text),
+  render: formatKeyValues,
+};
+
+// Registered formatters are added to the front
+const formatters: MessageFormatter[] = [moduleFormatter, keyValueFormatter];
+
+// Notified when a formatter is registered or removed, to re-render the shown rows
+const changeListeners = new Set<() => void>();
+
+/**
+ * Render messages that test() accepts with render() instead of the built-in colouring. Rows
+ * already shown are re-rendered with it. Returns a function that removes the formatter.
+ */
+export function registerFormatter(formatter: MessageFormatter): () => void {
+  formatters.unshift(formatter);
+  changeListeners.forEach(listener => listener());
+  return () => {
+    const index = formatters.indexOf(formatter);
+    if (index === -1) return;
+    formatters.splice(index, 1);
+    changeListeners.forEach(listener => listener());
+  };
+}
+
+/** Call listener whenever a formatter is registered or removed. Returns a function that stops. */
+export function onFormattersChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/** Render a message with the first formatter that accepts it, or colour its words */
+export function formatMessage(content: HTMLElement, text: string) {
+  for (const formatter of formatters) {
+    try {
+      if (!formatter.test(text)) continue;
+      // Rendered apart from the row, so a formatter that throws halfway leaves nothing behind
+      const rendered = document.createElement("span");
+      formatter.render(rendered, text);
+      content.appendChild(rendered);
+      return;
+    } catch (e) {
+      // A broken formatter shouldn't lose the message; try the next one
+    }
+  }
+  formatWords(content, text);
+}
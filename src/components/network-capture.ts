@@ -0,0 +1,303 @@
+// Network capture for ScreenLogger's opt-in `captureNetwork` mode.
+// Wraps window.fetch and XMLHttpRequest and reports one NetworkRequest per request
+// once it has finished (or failed).
+
+import type { NetworkRequest } from "./log-store";
+
+// Longest body preview kept per request; the rest is cut off
+const MAX_BODY_PREVIEW = 1000;
+
+// How long to wait for a fetch response body before logging the request without it
+const BODY_READ_TIMEOUT = 5000;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// One-line summary shown as the log message, e.g. "GET /api/items 200 (120 ms, 1.2 kB)"
+export function describeNetworkRequest(request: NetworkRequest): string {
+  const status = request.error ?? `${request.status} ${request.statusText ?? ""}`.trim();
+  const details = [`${Math.round(request.duration)} ms`];
+  if (request.responseSize !== undefined) details.push(formatBytes(request.responseSize));
+  return `${request.method} ${request.url} ${status} (${details.join(", ")})`;
+}
+
+function truncate(text: string) {
+  return text.length > MAX_BODY_PREVIEW
+    ? `${text.slice(0, MAX_BODY_PREVIEW)}… (${text.length - MAX_BODY_PREVIEW} more characters)`
+    : text;
+}
+
+type BodyDescription = { size?: number; preview?: string };
+
+// Size and preview of a request body; FormData and streams have no cheap size
+function describeBody(body: any): BodyDescription {
+  if (body === undefined || body === null) return {};
+  if (typeof body === "string") return { size: body.length, preview: truncate(body) };
+  if (body instanceof URLSearchParams) {
+    const text = body.toString();
+    return { size: text.length, preview: truncate(text) };
+  }
+  if (body instanceof Blob) return { size: body.size, preview: `[Blob ${body.type}]` };
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return { size: body.byteLength, preview: `[Binary ${body.byteLength} bytes]` };
+  }
+  if (body instanceof FormData) return { preview: "[FormData]" };
+  return { preview: `[${Object.prototype.toString.call(body).slice(8, -1)}]` };
+}
+
+function isTextContent(contentType: string | null) {
+  if (!contentType) return true;
+  if (contentType.includes("event-stream")) return false;
+  return /text|json|xml|javascript|x-www-form-urlencoded/.test(contentType);
+}
+
+function headersToRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+// XHR exposes response headers as one CRLF-separated string
+function parseRawHeaders(raw: string): Record<string, string> {
+  const record: Record<string, string> = {};
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach(line => {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        record[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    });
+  return record;
+}
+
+// Size and preview of the body of a Request passed to fetch. It has to be read from a copy
+// made before fetch consumes the original.
+async function describeRequestBody(request: Request): Promise<BodyDescription> {
+  if (isTextContent(request.headers.get("content-type"))) {
+    const text = await request.text();
+    return { size: text.length, preview: truncate(text) };
+  }
+  const size = (await request.arrayBuffer()).byteLength;
+  return { size, preview: `[Binary ${size} bytes]` };
+}
+
+// Read a copy of the response body as it arrives, keeping at most the first MAX_BODY_PREVIEW
+// characters of a text body. Once the preview is full the reader is cancelled if content-length
+// gives the size; otherwise the rest is only counted. A body that takes longer than
+// BODY_READ_TIMEOUT is left out.
+async function readResponseBody(
+  response: Response
+): Promise<{ size?: number; preview?: string } | undefined> {
+  const reader = response.clone().body?.getReader();
+  if (!reader) return { size: 0 };
+  const keepText = isTextContent(response.headers.get("content-type"));
+  const contentLength = response.headers.get("content-length");
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  let cutOff = false;
+
+  const preview = () => {
+    if (!keepText) return undefined;
+    return cutOff ? `${text.slice(0, MAX_BODY_PREVIEW)}… (${formatBytes(size)} in total)` : text;
+  };
+  const read = async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (keepText && !cutOff) {
+        text += decoder.decode(value, { stream: true });
+        cutOff = text.length > MAX_BODY_PREVIEW;
+        if (cutOff) text = text.slice(0, MAX_BODY_PREVIEW);
+      }
+      if (contentLength && (!keepText || cutOff)) {
+        reader.cancel().catch(() => {});
+        size = Number(contentLength);
+        return { size, preview: preview() };
+      }
+    }
+    if (keepText && !cutOff) text += decoder.decode();
+    return { size, preview: preview() };
+  };
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => {
+      reader.cancel().catch(() => {});
+      resolve(undefined);
+    }, BODY_READ_TIMEOUT);
+  });
+  try {
+    return await Promise.race([read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function wrapFetch(onRequest: (request: NetworkRequest) => void) {
+  const originalFetch = window.fetch;
+
+  window.fetch = async function (input: RequestInfo | URL, init?: RequestInit) {
+    const request = input instanceof Request ? input : undefined;
+    const method = (init?.method ?? request?.method ?? "GET").toUpperCase();
+    const url = request ? request.url : String(input);
+    const requestHeaders = headersToRecord(init?.headers ?? request?.headers);
+    const requestBody: Promise<BodyDescription> =
+      init?.body === undefined && request?.body
+        ? describeRequestBody(request.clone()).catch(() => ({}))
+        : Promise.resolve(describeBody(init?.body));
+    const start = performance.now();
+
+    // Called without waiting for it, so it must not reject; a request that can't be logged
+    // is left out rather than surfacing as an unhandled rejection in the app
+    const report = async (details: Omit<NetworkRequest, "method" | "url" | "requestHeaders">) => {
+      try {
+        const { size, preview } = await requestBody;
+        onRequest({
+          method,
+          url,
+          requestHeaders,
+          ...details,
+          requestSize: size,
+          requestBody: preview,
+        });
+      } catch (e) {
+        // Nothing to report it to
+      }
+    };
+
+    let response: Response;
+    try {
+      response = await originalFetch.call(window, input, init);
+    } catch (err) {
+      report({
+        duration: performance.now() - start,
+        responseHeaders: {},
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+
+    const responseHeaders = headersToRecord(response.headers);
+    const contentLength = response.headers.get("content-length");
+
+    // Like XHR's loadend, the request is finished once its body has arrived. A copy is read
+    // in the background so the caller's response is untouched.
+    const finish = (body?: { size?: number; preview?: string }) =>
+      report({
+        status: response.status,
+        statusText: response.statusText,
+        duration: performance.now() - start,
+        responseHeaders,
+        responseSize: contentLength ? Number(contentLength) : body?.size,
+        responseBody: body?.preview,
+      });
+    if (response.headers.get("content-type")?.includes("event-stream")) {
+      // Event streams don't end; they count as finished once they are open
+      finish();
+    } else {
+      readResponseBody(response).then(finish, () => finish());
+    }
+
+    return response;
+  };
+
+  return () => {
+    window.fetch = originalFetch;
+  };
+}
+
+// Per-instance request details, attached by the patched open/setRequestHeader/send
+type XhrDetails = {
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+};
+
+function xhrResponseSize(xhr: XMLHttpRequest, responseText?: string) {
+  const contentLength = xhr.getResponseHeader("content-length");
+  if (contentLength) return Number(contentLength);
+  if (responseText !== undefined) return responseText.length;
+  if (xhr.response instanceof ArrayBuffer) return xhr.response.byteLength;
+  if (xhr.response instanceof Blob) return xhr.response.size;
+  return undefined;
+}
+
+function wrapXhr(onRequest: (request: NetworkRequest) => void) {
+  const proto = XMLHttpRequest.prototype;
+  const originalOpen = proto.open;
+  const originalSend = proto.send;
+  const originalSetRequestHeader = proto.setRequestHeader;
+  const details = new WeakMap<XMLHttpRequest, XhrDetails>();
+
+  // open(method, url) or open(method, url, async, username, password)
+  proto.open = function (
+    this: XMLHttpRequest,
+    ...args: [method: string, url: string | URL] | Parameters<XMLHttpRequest["open"]>
+  ) {
+    const [method, url] = args;
+    details.set(this, { method: method.toUpperCase(), url: String(url), requestHeaders: {} });
+    return Reflect.apply(originalOpen, this, args);
+  };
+
+  proto.setRequestHeader = function (this: XMLHttpRequest, name: string, value: string) {
+    const request = details.get(this);
+    if (request) request.requestHeaders[name.toLowerCase()] = value;
+    return originalSetRequestHeader.call(this, name, value);
+  };
+
+  proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = details.get(this);
+    if (request) {
+      const requestBody = describeBody(body);
+      const start = performance.now();
+
+      this.addEventListener("loadend", () => {
+        const responseBody =
+          this.responseType === "" || this.responseType === "text" ? this.responseText : undefined;
+
+        onRequest({
+          ...request,
+          status: this.status || undefined,
+          statusText: this.statusText || undefined,
+          duration: performance.now() - start,
+          requestSize: requestBody.size,
+          requestBody: requestBody.preview,
+          responseHeaders: parseRawHeaders(this.getAllResponseHeaders()),
+          responseSize: xhrResponseSize(this, responseBody),
+          responseBody: responseBody === undefined ? undefined : truncate(responseBody),
+          // A status of 0 after loadend means the request never completed
+          error: this.status === 0 ? "Network error" : undefined,
+        });
+      });
+    }
+    return originalSend.call(this, body);
+  };
+
+  return () => {
+    proto.open = originalOpen;
+    proto.send = originalSend;
+    proto.setRequestHeader = originalSetRequestHeader;
+  };
+}
+
+/**
+ * Wrap window.fetch and XMLHttpRequest and report every finished request.
+ * Returns a function that restores the originals.
+ */
+export function captureNetworkRequests(onRequest: (request: NetworkRequest) => void): () => void {
+  const restoreFetch = wrapFetch(onRequest);
+  const restoreXhr = wrapXhr(onRequest);
+  return () => {
+    restoreFetch();
+    restoreXhr();
+  };
+}
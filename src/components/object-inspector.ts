@@ -0,0 +1,390 @@
+// Expandable tree inspector for objects logged to the v1 panel.
+// Nodes are built when they are first expanded, so a large or circular structure costs
+// nothing until it is opened. Properties are read through their descriptors, which keeps
+// getters from running until they are clicked. Also covers what JSON.stringify can't show:
+// BigInt, Map, Set, Date, Error, functions, class instances, symbols and typed arrays.
+
+import { SnapshotLimit } from "./snapshot";
+
+/** Children listed per node before a "Show more" button */
+const PAGE_SIZE = 100;
+/** Properties or items listed in the one-line preview of a collapsed object */
+const PREVIEW_ITEMS = 5;
+/** Strings longer than this are cut short inside previews */
+const MAX_PREVIEW_STRING = 40;
+
+const COLORS = {
+  key: "#9CDCFE",
+  className: "#4dabf7",
+  string: "#FC8A58",
+  number: "#5AAAFA",
+  boolean: "#C792EA",
+  null: "#82AAFF",
+  undefined: "#A9B7C6",
+  function: "#FFC16C",
+  symbol: "#FFC16C",
+  error: "#ff6b6b",
+};
+
+const DIM_STYLE = "opacity:0.6;";
+
+// Placeholders in previews for a property whose value is behind a getter, and for an
+// array index that was never assigned
+const ACCESSOR = Symbol("accessor");
+const HOLE = Symbol("hole");
+
+interface InspectorChild {
+  /** Property name, index or Map key as shown; absent for the root */
+  key?: string;
+  /** Shown between the key and the value */
+  separator?: string;
+  value?: unknown;
+  /** Runs the getter of an accessor property against the inspected object */
+  getter?: () => unknown;
+  /** Accessor property with a setter and no getter */
+  setterOnly?: boolean;
+  /** Label shown before the key of an accessor property */
+  label?: "get" | "set";
+  /** Array index that was never assigned */
+  hole?: boolean;
+  /** Non-enumerable properties and internal slots like [[Prototype]] are dimmed */
+  dim?: boolean;
+  /** The object the getters of a [[Prototype]] node run against, rather than the prototype */
+  receiver?: object;
+}
+
+type TypedArray = ArrayLike<number | bigint> & ArrayBufferView;
+
+function isTypedArray(value: object): value is TypedArray {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+function isExpandable(value: unknown): value is object {
+  return (
+    (typeof value === "object" && value !== null && !(value instanceof SnapshotLimit)) ||
+    typeof value === "function"
+  );
+}
+
+function isArrayIndex(key: string) {
+  return /^(0|[1-9]\d*)$/.test(key);
+}
+
+function createSpan(text: string, css = "") {
+  const span = document.createElement("span");
+  if (css) span.style.cssText = css;
+  span.textContent = text;
+  return span;
+}
+
+// Name of the class an object was made by, from the constructor on its prototype.
+// A prototype itself is named after the class it belongs to.
+function getClassName(value: object): string {
+  try {
+    const own = Object.getOwnPropertyDescriptor(value, "constructor")?.value;
+    if (typeof own === "function" && own.prototype === value && own.name) return own.name;
+    const proto = Object.getPrototypeOf(value);
+    if (proto === null) return "[Object: null prototype]";
+    const constructor = Object.getOwnPropertyDescriptor(proto, "constructor")?.value;
+    return typeof constructor === "function" && constructor.name ? constructor.name : "Object";
+  } catch (e) {
+    // Proxies can throw from their traps
+    return "Object";
+  }
+}
+
+function describeFunction(fn: Function) {
+  let isClass = false;
+  try {
+    isClass = /^class\b/.test(Function.prototype.toString.call(fn));
+  } catch (e) {
+    // Some host objects refuse toString
+  }
+  return isClass ? `class ${fn.name || "(anonymous)"}` : `ƒ ${fn.name}()`;
+}
+
+// One-line description of an object without its contents: Array(3), Map(2), {…}, Foo
+function describeObject(value: object): string {
+  try {
+    if (typeof value === "function") return describeFunction(value);
+    if (Array.isArray(value)) return `Array(${value.length})`;
+    if (isTypedArray(value)) return `${getClassName(value)}(${value.length})`;
+    if (value instanceof Map || value instanceof Set) {
+      return `${getClassName(value)}(${value.size})`;
+    }
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+    }
+    if (value instanceof RegExp) return String(value);
+    if (value instanceof Error) {
+      return value.message ? `${String(value.name)}: ${value.message}` : String(value.name);
+    }
+  } catch (e) {
+    // Fall back to the class name below
+  }
+  const name = getClassName(value);
+  return name === "Object" ? "{…}" : name;
+}
+
+// Text and colour of a value that has no children
+function formatPrimitive(value: unknown, inPreview: boolean): [string, string] {
+  switch (typeof value) {
+    case "string": {
+      const text =
+        inPreview && value.length > MAX_PREVIEW_STRING
+          ? value.slice(0, MAX_PREVIEW_STRING) + "…"
+          : value;
+      return [JSON.stringify(text), COLORS.string];
+    }
+    case "number":
+      return [Object.is(value, -0) ? "-0" : String(value), COLORS.number];
+    case "bigint":
+      return [`${value}n`, COLORS.number];
+    case "boolean":
+      return [String(value), COLORS.boolean];
+    case "symbol":
+      return [value.toString(), COLORS.symbol];
+    case "undefined":
+      return ["undefined", COLORS.undefined];
+    default:
+      return value === null ? ["null", COLORS.null] : [String(value), ""];
+  }
+}
+
+function createValueSpan(value: unknown, inPreview: boolean) {
+  if (value === ACCESSOR) return createSpan("(...)", DIM_STYLE);
+  if (value === HOLE) return createSpan("empty", DIM_STYLE);
+  if (value instanceof SnapshotLimit) return createSpan(String(value), DIM_STYLE);
+  if (typeof value === "function") {
+    return createSpan(describeFunction(value), `color:${COLORS.function};font-style:italic;`);
+  }
+  if (isExpandable(value)) return createSpan(describeObject(value), DIM_STYLE);
+  const [text, color] = formatPrimitive(value, inPreview);
+  return createSpan(text, color ? `color:${color};` : "");
+}
+
+// Own property value for a preview, without running getters
+function peekProperty(value: object, key: string) {
+  const descriptor = Object.getOwnPropertyDescriptor(value, key);
+  return descriptor && "value" in descriptor ? descriptor.value : ACCESSOR;
+}
+
+function formatKey(key: string | symbol) {
+  if (typeof key === "symbol") return `[${key.toString()}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) || isArrayIndex(key) ? key : JSON.stringify(key);
+}
+
+function describeMapKey(key: unknown) {
+  return isExpandable(key) ? describeObject(key) : formatPrimitive(key, true)[0];
+}
+
+// One-line preview of an object and its first few properties or items:
+// Foo {a: 1, b: "x", …}, Array(4) [1, 2, 3, 4], Map(1) {"a" => 1}
+function appendPreview(parent: HTMLElement, value: object) {
+  const items: [string | null, unknown][] = [];
+  let name: string;
+  let brackets = "{}";
+  let total: number;
+
+  try {
+    if (Array.isArray(value) || isTypedArray(value)) {
+      name = describeObject(value);
+      brackets = "[]";
+      total = value.length;
+      for (let i = 0; i < Math.min(total, PREVIEW_ITEMS); i++) {
+        items.push([null, i in value ? peekProperty(value, String(i)) : HOLE]);
+      }
+    } else if (value instanceof Map) {
+      name = describeObject(value);
+      total = value.size;
+      for (const [key, item] of value) {
+        if (items.length === PREVIEW_ITEMS) break;
+        items.push([`${describeMapKey(key)} => `, item]);
+      }
+    } else if (value instanceof Set) {
+      name = describeObject(value);
+      total = value.size;
+      for (const item of value) {
+        if (items.length === PREVIEW_ITEMS) break;
+        items.push([null, item]);
+      }
+    } else if (
+      typeof value === "function" ||
+      value instanceof Date ||
+      value instanceof RegExp ||
+      value instanceof Error
+    ) {
+      parent.appendChild(createValueSpan(value, true));
+      return;
+    } else {
+      const className = getClassName(value);
+      name = className === "Object" ? "" : className;
+      const keys = Object.keys(value);
+      total = keys.length;
+      keys.slice(0, PREVIEW_ITEMS).forEach(key => {
+        items.push([`${formatKey(key)}: `, peekProperty(value, key)]);
+      });
+    }
+  } catch (e) {
+    parent.appendChild(createSpan(getClassName(value), `color:${COLORS.className};`));
+    return;
+  }
+
+  if (name) parent.appendChild(createSpan(name + " ", `color:${COLORS.className};`));
+  parent.appendChild(document.createTextNode(brackets[0]));
+  items.forEach(([key, item], i) => {
+    if (i > 0) parent.appendChild(document.createTextNode(", "));
+    if (key !== null) parent.appendChild(createSpan(key, `color:${COLORS.key};`));
+    parent.appendChild(createValueSpan(item, true));
+  });
+  if (total > items.length) parent.appendChild(document.createTextNode(", …"));
+  parent.appendChild(document.createTextNode(brackets[1]));
+}
+
+// Child node for an own property, reading accessors without running them
+function describeProperty(owner: object, key: string | symbol, receiver: object): InspectorChild {
+  const descriptor = Reflect.getOwnPropertyDescriptor(owner, key);
+  const child: InspectorChild = { key: formatKey(key), dim: !descriptor?.enumerable };
+  if (!descriptor || "value" in descriptor) return { ...child, value: descriptor?.value };
+
+  const { get } = descriptor;
+  return get
+    ? { ...child, label: "get", getter: () => get.call(receiver) }
+    : { ...child, label: "set", setterOnly: true };
+}
+
+// Children of an object in display order: Map and Set entries, array items, own properties
+// and finally the prototype. Generated lazily so huge arrays are only read a page at a time.
+function* listChildren(value: object, receiver: object): Generator<InspectorChild> {
+  if (value instanceof Map) {
+    for (const [key, item] of value) {
+      yield { key: describeMapKey(key), separator: " => ", value: item };
+    }
+  } else if (value instanceof Set) {
+    let index = 0;
+    for (const item of value) yield { key: String(index++), value: item };
+  }
+
+  const indexed = Array.isArray(value) || isTypedArray(value);
+  if (indexed) {
+    for (let i = 0; i < value.length; i++) {
+      yield i in value
+        ? describeProperty(value, String(i), receiver)
+        : { key: String(i), hole: true };
+    }
+  }
+
+  for (const key of Reflect.ownKeys(value)) {
+    if (indexed && typeof key === "string" && isArrayIndex(key)) continue;
+    yield describeProperty(value, key, receiver);
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== null) yield { key: "[[Prototype]]", value: proto, dim: true, receiver };
+}
+
+function appendKey(parent: HTMLElement, child: InspectorChild) {
+  if (child.key === undefined) return;
+  const css = `color:${COLORS.key};` + (child.dim ? DIM_STYLE : "");
+  if (child.label) parent.appendChild(createSpan(child.label + " ", DIM_STYLE));
+  parent.appendChild(createSpan(child.key, css));
+  parent.appendChild(document.createTextNode(child.separator ?? ": "));
+}
+
+function createNode(child: InspectorChild, ancestors: readonly object[]): HTMLElement {
+  const { value } = child;
+  const circular = isExpandable(value) && ancestors.includes(value);
+
+  if (!isExpandable(value) || circular || child.getter || child.setterOnly) {
+    const row = document.createElement("div");
+    appendKey(row, child);
+    if (child.hole) {
+      row.appendChild(createSpan("empty", DIM_STYLE));
+    } else if (child.setterOnly) {
+      row.appendChild(createSpan("(setter)", DIM_STYLE));
+    } else if (child.getter) {
+      const invoke = createSpan("(...)", "cursor:pointer;text-decoration:underline dotted;");
+      invoke.title = "Invoke property getter";
+      invoke.addEventListener("click", () => {
+        let node: HTMLElement;
+        try {
+          node = createNode({ ...child, getter: undefined, value: child.getter!() }, ancestors);
+        } catch (e) {
+          node = document.createElement("div");
+          appendKey(node, child);
+          const message = e instanceof Error ? e.message : String(e);
+          node.appendChild(createSpan(`[Exception: ${message}]`, `color:${COLORS.error};`));
+        }
+        row.replaceWith(node);
+      });
+      row.appendChild(invoke);
+    } else if (circular) {
+      row.appendChild(createSpan(`[Circular] ${describeObject(value)}`, DIM_STYLE));
+    } else {
+      row.appendChild(createValueSpan(value, false));
+    }
+    return row;
+  }
+
+  const details = document.createElement("details");
+  const summary = document.createElement("summary");
+  summary.style.cursor = "pointer";
+  appendKey(summary, child);
+  appendPreview(summary, value);
+  details.appendChild(summary);
+
+  // Built on first expansion; the same handler may run twice when reopened programmatically
+  details.addEventListener("toggle", () => {
+    if (!details.open || details.children.length > 1) return;
+    const body = document.createElement("div");
+    body.style.paddingLeft = "14px";
+    details.appendChild(body);
+    appendChildren(body, listChildren(value, child.receiver ?? value), [...ancestors, value]);
+  });
+  return details;
+}
+
+// Add up to a page of children, then a "Show more" button for the rest
+function appendChildren(
+  body: HTMLElement,
+  children: Iterator<InspectorChild>,
+  ancestors: readonly object[],
+  shown = 0
+) {
+  try {
+    for (let next = children.next(); !next.done; next = children.next()) {
+      if (shown === PAGE_SIZE) {
+        const held = next.value;
+        const more = createSpan("Show more", `cursor:pointer;color:${COLORS.className};`);
+        more.addEventListener("click", () => {
+          more.remove();
+          body.appendChild(createNode(held, ancestors));
+          appendChildren(body, children, ancestors, 1);
+        });
+        body.appendChild(more);
+        return;
+      }
+      body.appendChild(createNode(next.value, ancestors));
+      shown++;
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    body.appendChild(createSpan(`[Exception: ${message}]`, `color:${COLORS.error};`));
+    return;
+  }
+  if (body.childElementCount === 0) {
+    body.appendChild(createSpan("No properties", DIM_STYLE));
+  }
+}
+
+/**
+ * Collapsed tree view of an object or function, with a one-line preview as its summary.
+ * Search highlighting leaves it alone (data-screenlog-inspector), since its nodes come
+ * and go as they are expanded.
+ */
+export function createObjectInspector(value: object): HTMLElement {
+  const root = createNode({ value }, []);
+  root.dataset.screenlogInspector = "";
+  root.style.margin = "2px 0";
+  return root;
+}
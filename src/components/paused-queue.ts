@@ -0,0 +1,86 @@
+// Queue for the entries the v1 panel captures while paused.
+// It is capped like the log store, by count and by estimated size, and drops the oldest
+// entries first, which the store would evict first anyway. Group headers get a stand-in id
+// while queued so that the entries nested in them can refer to it; adding the queue to the
+// store swaps the stand-ins for the ids the store gives the headers.
+
+import { estimateEntrySize, LogStore, NewLogEntry } from "./log-store";
+
+type QueuedEntry = { entry: NewLogEntry; size: number; groupId?: number };
+
+export interface PausedQueue {
+  readonly length: number;
+  /** Queue an entry. Returns the stand-in id of a group header, for the entries nested in it. */
+  push: (entry: NewLogEntry) => number | undefined;
+  /** Add the queued entries to the store, oldest first, and empty the queue */
+  flush: (store: LogStore) => void;
+  /** Empty the queue without adding the entries */
+  discard: () => void;
+  /** Store id of a flushed group header, for groups still open; other ids are returned as is */
+  resolveGroupId: (id: number) => number;
+  /** Forget the stand-in ids, e.g. once the store was cleared */
+  reset: () => void;
+  setLimits: (maxEntries: number, maxBytes: number) => void;
+}
+
+export function createPausedQueue(maxEntries: number, maxBytes: number): PausedQueue {
+  let queue: QueuedEntry[] = [];
+  // Index of the oldest entry still queued; the dropped ones before it are cut off in batches
+  let head = 0;
+  let bytes = 0;
+  let nextGroupId = -1;
+  const flushedGroupIds = new Map<number, number>();
+
+  function empty() {
+    queue = [];
+    head = 0;
+    bytes = 0;
+  }
+
+  function dropOverLimits() {
+    while (queue.length - head > maxEntries || (bytes > maxBytes && queue.length - head > 1)) {
+      bytes -= queue[head].size;
+      head++;
+    }
+    if (head > 0 && head * 2 >= queue.length) {
+      queue = queue.slice(head);
+      head = 0;
+    }
+  }
+
+  const resolveGroupId = (id: number) => flushedGroupIds.get(id) ?? id;
+
+  return {
+    get length() {
+      return queue.length - head;
+    },
+    push(entry) {
+      const isGroupHeader = entry.method === "group" || entry.method === "groupCollapsed";
+      const groupId = isGroupHeader ? nextGroupId-- : undefined;
+      const size = estimateEntrySize(entry);
+      queue.push({ entry, size, groupId });
+      bytes += size;
+      dropOverLimits();
+      return groupId;
+    },
+    flush(store) {
+      for (let i = head; i < queue.length; i++) {
+        const { entry, groupId } = queue[i];
+        const added = store.add({ ...entry, groupPath: entry.groupPath?.map(resolveGroupId) });
+        if (groupId !== undefined) flushedGroupIds.set(groupId, added.id);
+      }
+      empty();
+    },
+    discard: empty,
+    resolveGroupId,
+    reset() {
+      empty();
+      flushedGroupIds.clear();
+    },
+    setLimits(entries, totalBytes) {
+      maxEntries = entries;
+      maxBytes = totalBytes;
+      dropOverLimits();
+    },
+  };
+}
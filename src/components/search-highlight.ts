@@ -0,0 +1,106 @@
+// Search match highlighting for the v1 logger's imperatively rendered entries.
+// Matches are wrapped in <mark> elements inside the entry text; object inspectors (marked with
+// data-screenlog-inspector) are left alone, since their nodes are built as they are expanded.
+
+const MATCH_STYLE = "background:rgba(250,204,21,0.35);color:inherit;border-radius:2px;";
+const CURRENT_MATCH_STYLE = "background:rgba(249,115,22,0.85);color:inherit;border-radius:2px;";
+
+/** Remove every search highlight below root and restore the plain text */
+export function clearSearchHighlights(root: HTMLElement) {
+  root.querySelectorAll("mark[data-screenlog-match]").forEach(mark => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    parent.replaceChild(document.createTextNode(mark.textContent ?? ""), mark);
+    parent.normalize();
+  });
+}
+
+// Ranges of text matched by any of the patterns, merged where they overlap
+function findMatches(text: string, patterns: RegExp[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  patterns.forEach(pattern => {
+    for (const match of text.matchAll(pattern)) {
+      if (match[0].length > 0) ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+}
+
+// Text nodes below element that search highlighting applies to
+function findTextNodes(element: HTMLElement) {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+    acceptNode: node =>
+      node.parentElement?.closest("[data-screenlog-inspector]")
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+  return textNodes;
+}
+
+/**
+ * Number of separate matches of the patterns (which must have the g flag) in pieces of text,
+ * such as the texts of an entry's row. Matches don't span pieces, as they don't span nodes.
+ */
+export function countSearchMatches(texts: string[], patterns: RegExp[]) {
+  if (patterns.length === 0) return 0;
+  return texts.reduce((count, text) => count + findMatches(text, patterns).length, 0);
+}
+
+/**
+ * Wrap text matching any of the patterns (which must have the g flag) in <mark> elements.
+ * Returns the marks in document order.
+ */
+export function highlightSearchMatches(elements: HTMLElement[], patterns: RegExp[]) {
+  const marks: HTMLElement[] = [];
+  if (patterns.length === 0) return marks;
+
+  elements.forEach(element => {
+    findTextNodes(element).forEach(node => {
+      const text = node.data;
+      const ranges = findMatches(text, patterns);
+      if (ranges.length === 0) return;
+
+      const fragment = document.createDocumentFragment();
+      let offset = 0;
+      ranges.forEach(([start, end]) => {
+        if (start > offset) {
+          fragment.appendChild(document.createTextNode(text.slice(offset, start)));
+        }
+        const mark = document.createElement("mark");
+        mark.dataset.screenlogMatch = "";
+        mark.style.cssText = MATCH_STYLE;
+        mark.textContent = text.slice(start, end);
+        fragment.appendChild(mark);
+        marks.push(mark);
+        offset = end;
+      });
+      if (offset < text.length) fragment.appendChild(document.createTextNode(text.slice(offset)));
+      node.replaceWith(fragment);
+    });
+  });
+
+  return marks;
+}
+
+/** Give one match the current-match style and the others the normal one */
+export function styleSearchMatches(marks: HTMLElement[], currentIndex: number) {
+  marks.forEach((mark, i) => {
+    mark.style.cssText = i === currentIndex ? CURRENT_MATCH_STYLE : MATCH_STYLE;
+  });
+}
+
+/** Mark one match as the current one and scroll it into view */
+export function focusSearchMatch(marks: HTMLElement[], index: number) {
+  styleSearchMatches(marks, index);
+  marks[index]?.scrollIntoView({ block: "nearest" });
+}
@@ -0,0 +1,144 @@
+// Snapshots of logged values for the loggers' snapshot mode.
+// Console arguments are live references, so an object changed after it was logged shows its
+// new contents once it is rendered or expanded. A snapshot copies it at capture time instead.
+// Copies keep prototypes (so the inspector still names the class), Map, Set, Date, RegExp,
+// typed arrays, non-enumerable properties such as an Error's message and stack, and circular
+// references. Functions and DOM nodes are kept as they are. Copying stops at a depth and size
+// limit, and a SnapshotLimit marks where it stopped. The originals of copied arguments are
+// kept through WeakRefs, so logging doesn't keep them from being garbage collected.
+
+export const DEFAULT_SNAPSHOT_DEPTH = 8;
+export const DEFAULT_SNAPSHOT_BYTES = 256 * 1024;
+
+// Property added to a copy whose remaining properties or items were over the size limit
+const TRUNCATED_KEY = "…";
+
+export interface SnapshotOptions {
+  /** Objects nested deeper than this are replaced by a SnapshotLimit */
+  maxDepth?: number;
+  /** Estimated size (bytes) copied per argument before the rest is left out */
+  maxBytes?: number;
+}
+
+/** Stands in for the part of a logged value a snapshot didn't copy */
+export class SnapshotLimit {
+  constructor(readonly reason: "depth" | "size") {}
+
+  toString() {
+    return this.reason === "depth" ? "… snapshot depth limit" : "… snapshot size limit";
+  }
+
+  toJSON() {
+    return this.toString();
+  }
+}
+
+/**
+ * Copy of a value as it is now. Primitives and functions are returned as they are, and so
+ * is anything that can't be read (a revoked proxy, say), which then stays live.
+ */
+export function createSnapshot(value: unknown, options: SnapshotOptions = {}): unknown {
+  const { maxDepth = DEFAULT_SNAPSHOT_DEPTH, maxBytes = DEFAULT_SNAPSHOT_BYTES } = options;
+  const copies = new Map<object, object>();
+  let size = 0;
+
+  function copy(value: unknown, depth: number): unknown {
+    size += typeof value === "string" ? value.length * 2 : 8;
+    if (value === null || typeof value !== "object" || value instanceof SnapshotLimit) {
+      return value;
+    }
+    if (typeof Node !== "undefined" && value instanceof Node) return value;
+
+    const existing = copies.get(value);
+    if (existing) return existing;
+    if (depth > maxDepth) return new SnapshotLimit("depth");
+
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+      const bytes = value.byteLength;
+      if (size + bytes > maxBytes) return new SnapshotLimit("size");
+      size += bytes;
+      const cloned =
+        value instanceof ArrayBuffer
+          ? value.slice(0)
+          : value instanceof DataView
+            ? new DataView(value.buffer.slice(value.byteOffset, value.byteOffset + bytes))
+            : (value as unknown as Uint8Array).slice();
+      copies.set(value, cloned);
+      return cloned;
+    }
+
+    let result: any;
+    if (value instanceof Date) result = new Date(value.getTime());
+    else if (value instanceof RegExp) result = new RegExp(value.source, value.flags);
+    else if (value instanceof Map) result = new Map();
+    else if (value instanceof Set) result = new Set();
+    else if (Array.isArray(value)) result = [];
+    else result = Object.create(Object.getPrototypeOf(value));
+    if (Object.getPrototypeOf(result) !== Object.getPrototypeOf(value)) {
+      // Subclasses of the built-ins above
+      Object.setPrototypeOf(result, Object.getPrototypeOf(value));
+    }
+    copies.set(value, result);
+
+    const truncate = () =>
+      Object.defineProperty(result, TRUNCATED_KEY, {
+        value: new SnapshotLimit("size"),
+        enumerable: true,
+      });
+    if (value instanceof Map) {
+      for (const [key, item] of value) {
+        if (size > maxBytes) return truncate();
+        result.set(copy(key, depth + 1), copy(item, depth + 1));
+      }
+    } else if (value instanceof Set) {
+      for (const item of value) {
+        if (size > maxBytes) return truncate();
+        result.add(copy(item, depth + 1));
+      }
+    }
+
+    // Accessors are copied as they are and run against the copy when inspected
+    for (const key of Reflect.ownKeys(value)) {
+      if (size > maxBytes) return truncate();
+      const descriptor = Reflect.getOwnPropertyDescriptor(value, key)!;
+      if ("value" in descriptor) descriptor.value = copy(descriptor.value, depth + 1);
+      Object.defineProperty(result, key, descriptor);
+    }
+    return result;
+  }
+
+  try {
+    return copy(value, 0);
+  } catch (e) {
+    return value;
+  }
+}
+
+/**
+ * Snapshots of log arguments, plus the arguments themselves if any of them was copied. Copied
+ * arguments are held as WeakRefs in liveArgs; the others are kept as they are.
+ */
+export function snapshotArgs(
+  args: any[],
+  options?: SnapshotOptions
+): { args: any[]; liveArgs?: any[] } {
+  const copies = args.map(arg => createSnapshot(arg, options));
+  if (copies.every((copy, i) => copy === args[i])) return { args };
+  return {
+    args: copies,
+    liveArgs: args.map((arg, i) => (copies[i] === arg ? arg : new WeakRef(arg))),
+  };
+}
+
+/** Whether a liveArgs item stands for a copied argument, i.e. has a "live" value to read */
+export const isLiveRef = (live: any): live is WeakRef<object> => live instanceof WeakRef;
+
+/**
+ * Current value of a liveArgs item. collected is set once a copied argument was garbage
+ * collected, because the app no longer references it.
+ */
+export function readLiveArg(live: any): { value: any; collected: boolean } {
+  if (!isLiveRef(live)) return { value: live, collected: false };
+  const value = live.deref();
+  return { value, collected: value === undefined };
+}
@@ -0,0 +1,149 @@
+// Windowed rendering for the logger panels.
+// Only the rows inside the viewport, plus an overscan margin, are mounted; spacers stand in
+// for the rest. Rows vary in height (wrapped text, expanded objects, stacks), so each row is
+// measured once it is mounted and an estimate is used for rows that never were.
+
+type RowKey = string | number;
+
+/** Extra height (px) mounted above and below the viewport so fast scrolling shows no gaps */
+export const OVERSCAN = 600;
+
+/** Distance (px) from the bottom within which the list sticks to the bottom as rows arrive */
+const STICK_TO_BOTTOM_THRESHOLD = 24;
+
+export interface RowWindow {
+  /** Index of the first mounted row */
+  start: number;
+  /** Index after the last mounted row */
+  end: number;
+  /** Height of the spacer standing in for the rows above the window */
+  paddingTop: number;
+  /** Height of the spacer standing in for the rows below the window */
+  paddingBottom: number;
+}
+
+/** A row and how far the scroll position is below its top, for keeping it in place */
+export interface ScrollAnchor {
+  key: RowKey;
+  offset: number;
+}
+
+export interface RowHeights {
+  /** Replace the rows, in display order; measurements of rows that remain are kept */
+  setKeys: (keys: readonly RowKey[]) => void;
+  /** Add rows after the last one */
+  append: (keys: readonly RowKey[]) => void;
+  /** Record the height of a mounted row. Returns whether it changed. */
+  measure: (key: RowKey, height: number) => boolean;
+  indexOf: (key: RowKey) => number;
+  /** Distance from the top of the list to the top of a row */
+  getOffset: (index: number) => number;
+  getTotalHeight: () => number;
+  getWindow: (scrollTop: number, viewportHeight: number) => RowWindow;
+  /** The row at a scroll position, to restore that position after rows above it change */
+  getAnchor: (scrollTop: number) => ScrollAnchor | undefined;
+  /** Scroll position that puts the anchor row back where it was, if it still exists */
+  resolveAnchor: (anchor: ScrollAnchor) => number | undefined;
+}
+
+export function createRowHeights(estimatedHeight: number): RowHeights {
+  let keys: RowKey[] = [];
+  const measured = new Map<RowKey, number>();
+  // Row tops plus the total height at the end, rebuilt lazily after a change
+  let offsets: number[] | null = null;
+  let indexes: Map<RowKey, number> | null = null;
+
+  function getOffsets() {
+    if (!offsets) {
+      offsets = new Array(keys.length + 1);
+      offsets[0] = 0;
+      keys.forEach((key, i) => {
+        offsets![i + 1] = offsets![i] + (measured.get(key) ?? estimatedHeight);
+      });
+    }
+    return offsets;
+  }
+
+  // Index of the row that contains the offset
+  function indexAt(offset: number) {
+    const tops = getOffsets();
+    let low = 0;
+    let high = keys.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (tops[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return Math.max(low, 0);
+  }
+
+  function setKeys(next: readonly RowKey[]) {
+    keys = next.slice();
+    const present = new Set(keys);
+    measured.forEach((_, key) => {
+      if (!present.has(key)) measured.delete(key);
+    });
+    offsets = null;
+    indexes = null;
+  }
+
+  function append(added: readonly RowKey[]) {
+    added.forEach(key => {
+      if (offsets) offsets.push(offsets[offsets.length - 1] + estimatedHeight);
+      indexes?.set(key, keys.length);
+      keys.push(key);
+    });
+  }
+
+  function measure(key: RowKey, height: number) {
+    if (measured.get(key) === height) return false;
+    measured.set(key, height);
+    offsets = null;
+    return true;
+  }
+
+  function indexOf(key: RowKey) {
+    if (!indexes) indexes = new Map(keys.map((rowKey, i) => [rowKey, i]));
+    return indexes.get(key) ?? -1;
+  }
+
+  function getWindow(scrollTop: number, viewportHeight: number): RowWindow {
+    const tops = getOffsets();
+    const total = tops[keys.length];
+    if (keys.length === 0) return { start: 0, end: 0, paddingTop: 0, paddingBottom: 0 };
+
+    const start = indexAt(Math.max(scrollTop - OVERSCAN, 0));
+    const end = indexAt(scrollTop + viewportHeight + OVERSCAN) + 1;
+    return { start, end, paddingTop: tops[start], paddingBottom: total - tops[end] };
+  }
+
+  function getAnchor(scrollTop: number): ScrollAnchor | undefined {
+    if (keys.length === 0) return undefined;
+    const index = indexAt(Math.max(scrollTop, 0));
+    return { key: keys[index], offset: scrollTop - getOffsets()[index] };
+  }
+
+  function resolveAnchor(anchor: ScrollAnchor) {
+    const index = indexOf(anchor.key);
+    return index === -1 ? undefined : getOffsets()[index] + anchor.offset;
+  }
+
+  return {
+    setKeys,
+    append,
+    measure,
+    indexOf,
+    getOffset: index => getOffsets()[index],
+    getTotalHeight: () => getOffsets()[keys.length],
+    getWindow,
+    getAnchor,
+    resolveAnchor,
+  };
+}
+
+/** Whether a scroll container is at (or within a few pixels of) its bottom */
+export function isScrolledToBottom(element: HTMLElement) {
+  return (
+    element.scrollHeight - element.scrollTop - element.clientHeight <= STICK_TO_BOTTOM_THRESHOLD
+  );
+}
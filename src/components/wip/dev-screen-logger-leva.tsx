@@ -1,7 +1,14 @@
 "use client"; // for use with next.js only
 
 import { buttonGroup, LevaPanel, useControls, useCreateStore } from "leva";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  formatArgsAsText,
+  LogLevel,
+  logStore,
+  LogEntry as StoreEntry,
+  ScreenLogApi,
+} from "../log-store";
 
 interface ScreenLoggerProps {
   color?: string;
@@ -18,12 +25,22 @@ interface ScreenLoggerProps {
 }
 
 type LogEntry = {
-  type: "log" | "info" | "warn" | "error";
+  type: LogLevel;
   content: string;
   timestamp: number;
   objectData?: any;
 };
 
+// Leva view of a log store entry
+const toLevaEntry = (entry: StoreEntry): LogEntry => ({
+  type: entry.level,
+  content: formatArgsAsText(entry.args),
+  timestamp: entry.timestamp,
+  objectData: entry.args.find(
+    (arg) => typeof arg === "object" && arg !== null
+  ),
+});
+
 /**
  * ScreenLogger Component with Leva UI
  *
@@ -49,12 +66,35 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     listenToKeystrokes = true,
   } = props;
 
-  // Logs state
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [errorLogs, setErrorLogs] = useState<LogEntry[]>([]);
-  const [warnLogs, setWarnLogs] = useState<LogEntry[]>([]);
-  const [infoLogs, setInfoLogs] = useState<LogEntry[]>([]);
-  const [objectLogs, setObjectLogs] = useState<LogEntry[]>([]);
+  // Logs state, mirrored from the shared log store
+  const [storeEntries, setStoreEntries] = useState(logStore.getEntries());
+  const [evictedCount, setEvictedCount] = useState(logStore.getEvictedCount());
+  const logs = useMemo(() => storeEntries.map(toLevaEntry), [storeEntries]);
+  const errorLogs = useMemo(
+    () => logs.filter((log) => log.type === "error"),
+    [logs]
+  );
+  const warnLogs = useMemo(
+    () => logs.filter((log) => log.type === "warn"),
+    [logs]
+  );
+  const infoLogs = useMemo(
+    () => logs.filter((log) => log.type === "info"),
+    [logs]
+  );
+  const objectLogs = useMemo(
+    () => logs.filter((log) => log.objectData),
+    [logs]
+  );
+
+  useEffect(() => {
+    setStoreEntries(logStore.getEntries());
+    setEvictedCount(logStore.getEvictedCount());
+    return logStore.subscribe(() => {
+      setStoreEntries(logStore.getEntries());
+      setEvictedCount(logStore.getEvictedCount());
+    });
+  }, []);
 
   // References and state
   const isInitializedRef = useRef(false);
@@ -173,11 +213,7 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 
   // Clear logs
   const clearLogs = useCallback(() => {
-    setLogs([]);
-    setErrorLogs([]);
-    setWarnLogs([]);
-    setInfoLogs([]);
-    setObjectLogs([]);
+    logStore.clear();
     pendingLogsRef.current = [];
 
     if (throttleTimeoutRef.current) {
@@ -233,38 +269,10 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     }
   }, []);
 
-  // Add a log entry
+  // Add a log entry for the logger's own messages
   const addLogEntry = useCallback(
-    (
-      type: "log" | "info" | "warn" | "error",
-      content: string,
-      objectData?: any
-    ) => {
-      const entry: LogEntry = {
-        type,
-        content,
-        timestamp: Date.now(),
-        objectData,
-      };
-
-      setLogs((prev) => [...prev, entry]);
-
-      // Also add to type-specific arrays
-      switch (type) {
-        case "error":
-          setErrorLogs((prev) => [...prev, entry]);
-          break;
-        case "warn":
-          setWarnLogs((prev) => [...prev, entry]);
-          break;
-        case "info":
-          setInfoLogs((prev) => [...prev, entry]);
-          break;
-      }
-
-      if (objectData) {
-        setObjectLogs((prev) => [...prev, entry]);
-      }
+    (type: "log" | "info" | "warn" | "error", ...args: any[]) => {
+      logStore.add({ level: type, args, source: "screenLog" });
     },
     []
   );
@@ -274,36 +282,18 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
     (type: "log" | "info" | "warn" | "error", ...args: any[]) => {
       if (throttleConfigRef.current.paused) return;
 
-      // Convert arguments to string
-      const content = args
-        .map((arg) => {
-          if (typeof arg === "object" && arg !== null) {
-            try {
-              return JSON.stringify(arg);
-            } catch (e) {
-              return "[Circular]";
-            }
-          }
-          return String(arg);
-        })
-        .join(" ");
-
-      const objectData = args.find(
-        (arg) => typeof arg === "object" && arg !== null
-      );
-
       if (throttleConfigRef.current.throttled) {
         const now = Date.now();
         if (now - lastLogTimeRef.current >= throttleConfigRef.current.delay) {
-          addLogEntry(type, content, objectData);
+          logStore.add({ level: type, args, source: "console" });
           lastLogTimeRef.current = now;
         }
         return;
       }
 
-      addLogEntry(type, content, objectData);
+      logStore.add({ level: type, args, source: "console" });
     },
-    [addLogEntry]
+    []
   );
 
   // Create loggers for each console method
@@ -614,6 +604,11 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
         >
           <div style={{ marginBottom: "10px", fontWeight: "bold" }}>
             Log Output ({getFilteredLogs().length} entries)
+            {evictedCount > 0 && (
+              <span style={{ marginLeft: "8px", opacity: 0.6 }}>
+                {evictedCount} evicted
+              </span>
+            )}
           </div>
 
           <div style={{ maxHeight: "60vh", overflowY: "auto", padding: "5px" }}>
@@ -673,13 +668,6 @@ export function ScreenLogger(props: ScreenLoggerProps = {}) {
 // Type definition for window.screenLog
 declare global {
   interface Window {
-    screenLog?: {
-      log: (...args: any[]) => void;
-      clear: () => void;
-      info: (...args: any[]) => void;
-      warn: (...args: any[]) => void;
-      error: (...args: any[]) => void;
-      destroy: () => void;
-    };
+    screenLog?: ScreenLogApi;
   }
 }
@@ -0,0 +1,157 @@
+// Web Worker log forwarding.
+// Workers have their own console that ScreenLogger can't patch, so the worker calls
+// forwardWorkerLogs() to forward its console output, and the page hands the worker to
+// window.screenLog.registerWorker() to show those entries in the panel. The logs travel over
+// a MessageChannel of their own, so the app's message handlers never see them.
+
+import type { LogLevel } from "./log-store";
+
+// Sent once over the worker's own channel to hand it the port for its logs
+const WORKER_CONNECT_MESSAGE = "screenlog:worker-connect";
+
+const FORWARDED_METHODS = ["log", "debug", "info", "warn", "error"] as const;
+
+// Logs kept in the worker until the page registers it; older ones are dropped
+const MAX_BUFFERED_LOGS = 500;
+
+export interface WorkerLog {
+  level: LogLevel;
+  args: any[];
+  timestamp: number;
+}
+
+// Copy of a value with what postMessage can't clone (functions, symbols, DOM nodes, ...)
+// replaced by a description. Class instances become plain objects, as they would when cloned.
+function toCloneable(value: any, copies = new Map<object, any>()): any {
+  if (typeof value === "function") return `ƒ ${value.name || "anonymous"}()`;
+  if (typeof value === "symbol") return String(value);
+  if (value === null || typeof value !== "object") return value;
+  if (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    value instanceof Error ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    (typeof Blob !== "undefined" && value instanceof Blob)
+  ) {
+    return value;
+  }
+
+  const existing = copies.get(value);
+  if (existing) return existing;
+
+  if (Array.isArray(value)) {
+    const copy: any[] = [];
+    copies.set(value, copy);
+    value.forEach(item => copy.push(toCloneable(item, copies)));
+    return copy;
+  }
+  if (value instanceof Map) {
+    const copy = new Map();
+    copies.set(value, copy);
+    value.forEach((item, key) => copy.set(toCloneable(key, copies), toCloneable(item, copies)));
+    return copy;
+  }
+  if (value instanceof Set) {
+    const copy = new Set();
+    copies.set(value, copy);
+    value.forEach(item => copy.add(toCloneable(item, copies)));
+    return copy;
+  }
+
+  const copy: Record<string, any> = {};
+  copies.set(value, copy);
+  for (const key of Object.keys(value)) {
+    try {
+      copy[key] = toCloneable(value[key], copies);
+    } catch (e) {
+      copy[key] = "[Unreadable]";
+    }
+  }
+  return copy;
+}
+
+// Most arguments clone as they are; only when that fails are they copied first
+function postLog(port: MessagePort, log: WorkerLog) {
+  try {
+    port.postMessage(log);
+  } catch (e) {
+    port.postMessage({ ...log, args: log.args.map(arg => toCloneable(arg)) });
+  }
+}
+
+function isConnectMessage(event: MessageEvent) {
+  return (
+    event.data !== null &&
+    typeof event.data === "object" &&
+    event.data.type === WORKER_CONNECT_MESSAGE &&
+    event.ports.length === 1
+  );
+}
+
+/**
+ * Call inside a worker to forward its console output to the page. Call it before adding
+ * your own message handlers, so the one-off connect message from registerWorker() doesn't
+ * reach them. Logs made before the page registers the worker are sent once it does.
+ * Output still goes to the worker's own console as well. Returns a function that restores
+ * the original console methods.
+ */
+export function forwardWorkerLogs(): () => void {
+  const originalConsole = { ...console };
+  let port: MessagePort | undefined;
+  const buffered: WorkerLog[] = [];
+
+  const handleConnect = (event: MessageEvent) => {
+    if (!isConnectMessage(event)) return;
+    event.stopImmediatePropagation();
+    port = event.ports[0];
+    buffered.splice(0).forEach(log => postLog(port!, log));
+  };
+  self.addEventListener("message", handleConnect);
+
+  FORWARDED_METHODS.forEach(level => {
+    console[level] = (...args: any[]) => {
+      originalConsole[level].apply(console, args);
+      const log = { level, args, timestamp: Date.now() };
+      if (port) {
+        postLog(port, log);
+      } else {
+        buffered.push(log);
+        if (buffered.length > MAX_BUFFERED_LOGS) buffered.shift();
+      }
+    };
+  });
+
+  return () => {
+    self.removeEventListener("message", handleConnect);
+    port?.close();
+    FORWARDED_METHODS.forEach(level => {
+      console[level] = originalConsole[level];
+    });
+  };
+}
+
+/**
+ * Open a log channel to a worker that calls forwardWorkerLogs(), and listen for its logs
+ * plus errors thrown inside it that reach the main thread. Returns a function that closes
+ * the channel and removes the listeners.
+ */
+export function listenToWorkerLogs(worker: Worker, onLog: (log: WorkerLog) => void): () => void {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = (event: MessageEvent<WorkerLog>) => {
+    const { level, args, timestamp } = event.data;
+    onLog({ level, args, timestamp });
+  };
+  worker.postMessage({ type: WORKER_CONNECT_MESSAGE }, [channel.port2]);
+
+  const handleError = (event: ErrorEvent) => {
+    const location = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : "";
+    onLog({ level: "error", args: [`${event.message}${location}`], timestamp: Date.now() });
+  };
+  worker.addEventListener("error", handleError);
+
+  return () => {
+    channel.port1.close();
+    worker.removeEventListener("error", handleError);
+  };
+}